@@ -14,26 +14,124 @@ async function main() {
 
   // Clear existing data
   console.log('🧹 Cleaning existing data...');
+  await prisma.refreshToken.deleteMany();
+  await prisma.passwordResetToken.deleteMany();
+  await prisma.emailVerificationToken.deleteMany();
+  await prisma.loginThrottle.deleteMany();
+  await prisma.recoveryCode.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.idempotencyKey.deleteMany();
+  await prisma.address.deleteMany();
+  await prisma.cartItem.deleteMany();
+  await prisma.cart.deleteMany();
+  await prisma.stockReservationItem.deleteMany();
+  await prisma.stockReservation.deleteMany();
+  await prisma.returnStatusHistory.deleteMany();
+  await prisma.returnItem.deleteMany();
+  await prisma.returnRequest.deleteMany();
+  await prisma.refundItem.deleteMany();
+  await prisma.refund.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.orderStatusHistory.deleteMany();
+  await prisma.orderDiscount.deleteMany();
   await prisma.orderItem.deleteMany();
   await prisma.order.deleteMany();
+  await prisma.promotion.deleteMany();
+  await prisma.bookPrice.deleteMany();
   await prisma.book.deleteMany();
+  await prisma.exchangeRate.deleteMany();
+  await prisma.taxRule.deleteMany();
+  await prisma.shippingRate.deleteMany();
+  await prisma.shippingMethod.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.role.deleteMany();
+  await prisma.permission.deleteMany();
+
+  // Create permissions and default staff roles
+  console.log('🔑 Creating permissions and roles...');
+  const permissionDescriptions: Record<string, string> = {
+    'books:create': 'Add books to the catalog',
+    'books:update': 'Edit any book field',
+    'books:update-stock': 'Edit book stock quantities only',
+    'books:delete': 'Remove books from the catalog',
+    'books:pricing': 'Maintain currency exchange rates',
+    'orders:read-all': 'View every customer order',
+    'orders:update-status': 'Change order status',
+    'orders:cancel': 'Cancel customer orders',
+    'orders:refund': 'Refund paid orders',
+    'orders:returns': 'Approve, reject and receive customer returns',
+  };
+  for (const [key, description] of Object.entries(permissionDescriptions)) {
+    await prisma.permission.create({ data: { key, description } });
+  }
+
+  const staffRoles = [
+    {
+      name: 'inventory-clerk',
+      description: 'Maintains stock levels',
+      permissions: ['books:update-stock'],
+    },
+    {
+      name: 'fulfilment',
+      description: 'Ships orders and updates their status',
+      permissions: ['orders:read-all', 'orders:update-status'],
+    },
+    {
+      name: 'support',
+      description: 'Looks up and cancels orders for customers',
+      permissions: ['orders:read-all', 'orders:cancel', 'orders:returns'],
+    },
+  ];
+  for (const role of staffRoles) {
+    await prisma.role.create({
+      data: {
+        name: role.name,
+        description: role.description,
+        permissions: { connect: role.permissions.map((key) => ({ key })) },
+      },
+    });
+  }
+  console.log(`✅ Roles created: ${staffRoles.map((role) => role.name).join(', ')}`);
 
   // Create admin user
   console.log('👤 Creating admin user...');
-  const adminPassword = await hashPassword('admin123');
+  // Override in any shared environment; the default is public knowledge
+  const adminPlainPassword = process.env.SEED_ADMIN_PASSWORD || 'admin123';
+  const adminPassword = await hashPassword(adminPlainPassword);
   const admin = await prisma.user.create({
     data: {
       name: 'Admin User',
       email: 'admin@bookstore.com',
       password: adminPassword,
       role: 'ADMIN',
+      emailVerifiedAt: new Date(),
     },
   });
-  console.log(`✅ Admin created: ${admin.email} / admin123`);
+  console.log(`✅ Admin created: ${admin.email} / ${adminPlainPassword}`);
 
   // Create customer users
   console.log('👤 Creating customers...');
+  const customer1Address = {
+    recipientName: 'John Doe',
+    line1: '350 Fifth Avenue',
+    line2: null,
+    city: 'New York',
+    region: 'NY',
+    postalCode: '10118',
+    country: 'US',
+    phone: null,
+  };
+  const customer2Address = {
+    recipientName: 'Jane Smith',
+    line1: '400 Broad Street',
+    line2: null,
+    city: 'Seattle',
+    region: 'WA',
+    postalCode: '98109',
+    country: 'US',
+    phone: null,
+  };
+
   const customer1Password = await hashPassword('customer123');
   const customer1 = await prisma.user.create({
     data: {
@@ -41,6 +139,10 @@ async function main() {
       email: 'john@example.com',
       password: customer1Password,
       role: 'CUSTOMER',
+      emailVerifiedAt: new Date(),
+      addresses: {
+        create: { label: 'Home', ...customer1Address, isDefault: true },
+      },
     },
   });
 
@@ -51,10 +153,36 @@ async function main() {
       email: 'jane@example.com',
       password: customer2Password,
       role: 'CUSTOMER',
+      emailVerifiedAt: new Date(),
+      addresses: {
+        create: { label: 'Home', ...customer2Address, isDefault: true },
+      },
     },
   });
   console.log(`✅ Customers created: ${customer1.email}, ${customer2.email} / customer123`);
 
+  // Create staff users (CUSTOMER accounts with staff roles)
+  console.log('👤 Creating staff...');
+  const staffPassword = await hashPassword('staff123');
+  const staffUsers = [
+    { name: 'Ivy Clerk', email: 'clerk@bookstore.com', role: 'inventory-clerk' },
+    { name: 'Finn Fulfilment', email: 'fulfilment@bookstore.com', role: 'fulfilment' },
+    { name: 'Sam Support', email: 'support@bookstore.com', role: 'support' },
+  ];
+  for (const staff of staffUsers) {
+    await prisma.user.create({
+      data: {
+        name: staff.name,
+        email: staff.email,
+        password: staffPassword,
+        role: 'CUSTOMER',
+        emailVerifiedAt: new Date(),
+        staffRoles: { connect: { name: staff.role } },
+      },
+    });
+  }
+  console.log(`✅ Staff created: ${staffUsers.map((staff) => staff.email).join(', ')} / staff123`);
+
   // Create books
   console.log('📚 Creating books...');
   const book1 = await prisma.book.create({
@@ -63,9 +191,10 @@ async function main() {
       authors: JSON.stringify(['F. Scott Fitzgerald']),
       genre: 'Classic Literature',
       isbn: '9780743273565',
-      price: 12.99,
+      priceCents: 1299,
       description: 'A masterpiece of American fiction set in the Jazz Age.',
       stockQuantity: 50,
+      weightGrams: 340,
       imageUrl: 'https://images.unsplash.com/photo-1544947950-fa07a98d237f?w=400',
     },
   });
@@ -76,9 +205,10 @@ async function main() {
       authors: JSON.stringify(['Harper Lee']),
       genre: 'Classic Literature',
       isbn: '9780061120084',
-      price: 14.99,
+      priceCents: 1499,
       description: 'A gripping tale of racial injustice and childhood innocence.',
       stockQuantity: 30,
+      weightGrams: 380,
       imageUrl: 'https://images.unsplash.com/photo-1543002588-bfa74002ed7e?w=400',
     },
   });
@@ -89,9 +219,10 @@ async function main() {
       authors: JSON.stringify(['George Orwell']),
       genre: 'Science Fiction',
       isbn: '9780451524935',
-      price: 13.99,
+      priceCents: 1399,
       description: 'A dystopian social science fiction novel and cautionary tale.',
       stockQuantity: 25,
+      weightGrams: 300,
       imageUrl: 'https://images.unsplash.com/photo-1589829085413-56de8ae18c73?w=400',
     },
   });
@@ -102,10 +233,14 @@ async function main() {
       authors: JSON.stringify(['Robert C. Martin']),
       genre: 'Technology',
       isbn: '9780132350884',
-      price: 42.99,
+      priceCents: 4299,
       description: 'A handbook of agile software craftsmanship.',
       stockQuantity: 15,
+      weightGrams: 840,
       imageUrl: 'https://images.unsplash.com/photo-1532012197267-da84d127e765?w=400',
+      prices: {
+        create: [{ currency: 'EUR', priceCents: 3999 }],
+      },
     },
   });
 
@@ -115,35 +250,160 @@ async function main() {
       authors: JSON.stringify(['Erich Gamma', 'Richard Helm', 'Ralph Johnson', 'John Vlissides']),
       genre: 'Technology',
       isbn: '9780201633610',
-      price: 54.99,
+      priceCents: 5499,
       description: 'Elements of reusable object-oriented software.',
       stockQuantity: 20,
+      weightGrams: 1050,
       imageUrl: 'https://images.unsplash.com/photo-1512820790803-83ca734da794?w=400',
     },
   });
   console.log(`✅ Books created: ${book1.title}, ${book2.title}, ${book3.title}, ${book4.title}, ${book5.title}`);
 
+  // Create exchange rates (from USD)
+  console.log('💱 Creating exchange rates...');
+  await prisma.exchangeRate.createMany({
+    data: [
+      { currency: 'EUR', rate: 0.92 },
+      { currency: 'GBP', rate: 0.79 },
+    ],
+  });
+  console.log('✅ Exchange rates created: EUR, GBP');
+
+  // Create tax rules (books are zero-rated or reduced-rate in most regions)
+  console.log('🧾 Creating tax rules...');
+  await prisma.taxRule.createMany({
+    data: [
+      { region: 'US', taxClass: 'books', rate: 0 },
+      { region: 'US-CA', taxClass: 'books', rate: 0.0725 },
+      { region: 'GB', taxClass: 'books', rate: 0 },
+      { region: 'DE', taxClass: 'books', rate: 0.07 },
+      { region: 'DE', taxClass: 'standard', rate: 0.19 },
+    ],
+  });
+  console.log('✅ Tax rules created: US, US-CA, GB, DE');
+
+  // Create shipping methods (rates in USD; pickup is only offered near the New York store)
+  console.log('🚚 Creating shipping methods...');
+  await prisma.shippingMethod.create({
+    data: {
+      code: 'standard',
+      name: 'Standard',
+      description: 'Delivered in 3-7 business days',
+      rateBasis: 'ITEM_COUNT',
+      rates: {
+        create: [
+          { region: 'US', minQuantity: 1, rateCents: 399 },
+          { region: 'US', minQuantity: 3, rateCents: 599 },
+          { region: 'US', minQuantity: 6, rateCents: 899 },
+          { region: 'GB', minQuantity: 1, rateCents: 699 },
+          { region: 'DE', minQuantity: 1, rateCents: 799 },
+        ],
+      },
+    },
+  });
+  await prisma.shippingMethod.create({
+    data: {
+      code: 'express',
+      name: 'Express',
+      description: 'Delivered in 1-2 business days',
+      rateBasis: 'WEIGHT',
+      rates: {
+        create: [
+          { region: 'US', minQuantity: 0, rateCents: 1299 },
+          { region: 'US', minQuantity: 1000, rateCents: 1799 },
+          { region: 'US', minQuantity: 5000, rateCents: 2999 },
+          { region: 'US-HI', minQuantity: 0, rateCents: 2499 },
+          { region: 'US-HI', minQuantity: 1000, rateCents: 3499 },
+        ],
+      },
+    },
+  });
+  await prisma.shippingMethod.create({
+    data: {
+      code: 'pickup',
+      name: 'Store pickup',
+      description: 'Collect from our New York store',
+      rateBasis: 'ITEM_COUNT',
+      rates: {
+        create: [{ region: 'US-NY', minQuantity: 0, rateCents: 0 }],
+      },
+    },
+  });
+  console.log('✅ Shipping methods created: standard, express, pickup');
+
+  // Create promotions
+  console.log('🏷️ Creating promotions...');
+  await prisma.promotion.createMany({
+    data: [
+      {
+        code: 'WELCOME10',
+        description: '10% off your first order',
+        type: 'PERCENTAGE',
+        percentOff: 10,
+        maxUsesPerCustomer: 1,
+      },
+      {
+        code: 'FIVEOFF',
+        type: 'FIXED_AMOUNT',
+        amountOffCents: 500,
+        minSpendCents: 3000,
+        maxUses: 100,
+      },
+      {
+        code: 'TECHB2G1',
+        type: 'BUY_X_GET_Y',
+        buyQuantity: 2,
+        getQuantity: 1,
+        genre: 'Technology',
+      },
+    ],
+  });
+  console.log('✅ Promotions created: WELCOME10, FIVEOFF, TECHB2G1');
+
   // Create orders
   console.log('🛒 Creating orders...');
   const order1 = await prisma.order.create({
     data: {
       userId: customer1.id,
-      totalPrice: 27.98,
+      subtotalCents: 2798,
+      shippingCents: 399,
+      totalPriceCents: 3197,
+      shippingAddress: JSON.stringify(customer1Address),
+      shippingMethod: 'standard',
       orderStatus: 'DELIVERED',
       paymentStatus: 'PAID',
+      payments: {
+        create: {
+          provider: 'mock',
+          providerPaymentId: 'mock_seed_order1',
+          amountCents: 3197,
+          currency: 'USD',
+          paymentMethod: 'mock_card_success',
+          status: 'PAID',
+        },
+      },
+      statusHistory: {
+        create: [
+          { fromStatus: null, toStatus: 'PENDING', actorId: customer1.id },
+          { fromStatus: 'PENDING', toStatus: 'SHIPPED', actorId: admin.id },
+          { fromStatus: 'SHIPPED', toStatus: 'DELIVERED', actorId: admin.id },
+        ],
+      },
       orderItems: {
         create: [
           {
             bookId: book1.id,
             quantity: 1,
-            unitPrice: 12.99,
-            subtotal: 12.99,
+            unitPriceCents: 1299,
+            subtotalCents: 1299,
+            totalCents: 1299,
           },
           {
             bookId: book3.id,
             quantity: 1,
-            unitPrice: 13.99,
-            subtotal: 13.99,
+            unitPriceCents: 1399,
+            subtotalCents: 1399,
+            totalCents: 1399,
           },
         ],
       },
@@ -153,16 +413,37 @@ async function main() {
   const order2 = await prisma.order.create({
     data: {
       userId: customer2.id,
-      totalPrice: 42.99,
+      subtotalCents: 4299,
+      shippingCents: 399,
+      totalPriceCents: 4698,
+      shippingAddress: JSON.stringify(customer2Address),
+      shippingMethod: 'standard',
       orderStatus: 'SHIPPED',
       paymentStatus: 'PAID',
+      payments: {
+        create: {
+          provider: 'mock',
+          providerPaymentId: 'mock_seed_order2',
+          amountCents: 4698,
+          currency: 'USD',
+          paymentMethod: 'mock_card_success',
+          status: 'PAID',
+        },
+      },
+      statusHistory: {
+        create: [
+          { fromStatus: null, toStatus: 'PENDING', actorId: customer2.id },
+          { fromStatus: 'PENDING', toStatus: 'SHIPPED', actorId: admin.id },
+        ],
+      },
       orderItems: {
         create: [
           {
             bookId: book4.id,
             quantity: 1,
-            unitPrice: 42.99,
-            subtotal: 42.99,
+            unitPriceCents: 4299,
+            subtotalCents: 4299,
+            totalCents: 4299,
           },
         ],
       },
@@ -172,16 +453,24 @@ async function main() {
   const order3 = await prisma.order.create({
     data: {
       userId: customer1.id,
-      totalPrice: 54.99,
+      subtotalCents: 5499,
+      shippingCents: 399,
+      totalPriceCents: 5898,
+      shippingAddress: JSON.stringify(customer1Address),
+      shippingMethod: 'standard',
       orderStatus: 'PENDING',
       paymentStatus: 'PENDING',
+      statusHistory: {
+        create: [{ fromStatus: null, toStatus: 'PENDING', actorId: customer1.id }],
+      },
       orderItems: {
         create: [
           {
             bookId: book5.id,
             quantity: 1,
-            unitPrice: 54.99,
-            subtotal: 54.99,
+            unitPriceCents: 5499,
+            subtotalCents: 5499,
+            totalCents: 5499,
           },
         ],
       },
@@ -191,9 +480,10 @@ async function main() {
 
   console.log('🎉 Seed completed successfully!');
   console.log('\n📋 Test Credentials:');
-  console.log('   Admin: admin@bookstore.com / admin123');
+  console.log(`   Admin: admin@bookstore.com / ${adminPlainPassword}`);
   console.log('   Customer 1: john@example.com / customer123');
   console.log('   Customer 2: jane@example.com / customer123');
+  console.log('   Staff: clerk@ / fulfilment@ / support@bookstore.com / staff123');
 }
 
 main()
@@ -0,0 +1,37 @@
+// Email Verification Backfill Script for Bookstore Management System
+//
+// Accounts created before email verification have no emailVerifiedAt, so they
+// cannot place orders. Run it once after `prisma db push` adds the column, so
+// those accounts are marked as verified.
+//
+// Usage:
+//   bunx prisma db push
+//   bun scripts/backfill-email-verified.ts
+//
+// Safe to re-run: accounts that were ever sent a verification link registered
+// after verification shipped, and are left for their owners to verify.
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      emailVerifiedAt: null,
+      emailVerificationTokens: { none: {} },
+    },
+    data: { emailVerifiedAt: new Date() },
+  });
+  console.log(`  User.emailVerifiedAt: ${count} rows`);
+
+  console.log('✅ Existing accounts marked as verified.');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Email verification backfill failed:', error.message);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
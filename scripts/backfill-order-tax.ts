@@ -0,0 +1,37 @@
+// Order Tax Backfill Script for Bookstore Management System
+//
+// Orders placed before tax calculation have no tax, so their net amounts equal
+// their totals. Run it once after `prisma db push` adds the tax columns, so
+// those orders get their net and gross amounts filled in.
+//
+// Usage:
+//   bunx prisma db push
+//   bun scripts/backfill-order-tax.ts
+//
+// Safe to re-run: rows that already have consistent amounts are left as they are.
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const items = await prisma.$executeRawUnsafe(
+    'UPDATE "OrderItem" SET "totalCents" = "subtotalCents" - "discountCents" + "taxCents" WHERE "totalCents" <> "subtotalCents" - "discountCents" + "taxCents"'
+  );
+  console.log(`  OrderItem.totalCents: ${items} rows`);
+
+  const orders = await prisma.$executeRawUnsafe(
+    'UPDATE "Order" SET "subtotalCents" = "totalPriceCents" + "discountCents" - "taxCents" - "shippingCents" WHERE "subtotalCents" <> "totalPriceCents" + "discountCents" - "taxCents" - "shippingCents"'
+  );
+  console.log(`  Order.subtotalCents: ${orders} rows`);
+
+  console.log('✅ Order tax amounts backfilled.');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Order tax backfill failed:', error.message);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
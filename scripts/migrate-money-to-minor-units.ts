@@ -0,0 +1,84 @@
+// Money Data Migration Script for Bookstore Management System
+//
+// Copies the old Float money columns of an existing SQLite database into the
+// integer minor-unit (cents) columns, and adds the currency columns. Run it
+// BEFORE `prisma db push`, which then drops the old Float columns.
+//
+// Usage:
+//   bun scripts/migrate-money-to-minor-units.ts
+//   bunx prisma db push --accept-data-loss
+//
+// Safe to re-run: columns are only added once, and rows are only copied while
+// the old column still exists.
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Currency existing rows were priced in
+const CURRENCY = process.env.STORE_CURRENCY || 'USD';
+
+// Old Float column -> new integer minor-unit column, per table
+const MONEY_COLUMNS: { table: string; from: string; to: string }[] = [
+  { table: 'Book', from: 'price', to: 'priceCents' },
+  { table: 'Order', from: 'totalPrice', to: 'totalPriceCents' },
+  { table: 'OrderItem', from: 'unitPrice', to: 'unitPriceCents' },
+  { table: 'OrderItem', from: 'subtotal', to: 'subtotalCents' },
+  { table: 'Payment', from: 'amount', to: 'amountCents' },
+  { table: 'Refund', from: 'amount', to: 'amountCents' },
+  { table: 'RefundItem', from: 'amount', to: 'amountCents' },
+];
+
+// Tables that gain a currency column
+const CURRENCY_TABLES = ['Book', 'Order'];
+
+async function getColumns(table: string): Promise<string[]> {
+  const columns = await prisma.$queryRawUnsafe<{ name: string }[]>(`PRAGMA table_info("${table}")`);
+  return columns.map((column) => column.name);
+}
+
+async function main() {
+  for (const { table, from, to } of MONEY_COLUMNS) {
+    const columns = await getColumns(table);
+
+    if (columns.length === 0) {
+      console.log(`  ${table}: table does not exist, skipping`);
+      continue;
+    }
+
+    if (!columns.includes(to)) {
+      await prisma.$executeRawUnsafe(`ALTER TABLE "${table}" ADD COLUMN "${to}" INTEGER NOT NULL DEFAULT 0`);
+    }
+
+    if (!columns.includes(from)) {
+      console.log(`  ${table}.${to}: already migrated`);
+      continue;
+    }
+
+    const rows = await prisma.$executeRawUnsafe(
+      `UPDATE "${table}" SET "${to}" = CAST(ROUND("${from}" * 100) AS INTEGER)`
+    );
+    console.log(`  ${table}.${from} -> ${table}.${to}: ${rows} rows`);
+  }
+
+  for (const table of CURRENCY_TABLES) {
+    const columns = await getColumns(table);
+
+    if (columns.length > 0 && !columns.includes('currency')) {
+      await prisma.$executeRawUnsafe(
+        `ALTER TABLE "${table}" ADD COLUMN "currency" TEXT NOT NULL DEFAULT '${CURRENCY}'`
+      );
+      console.log(`  ${table}.currency: set to ${CURRENCY}`);
+    }
+  }
+
+  console.log('✅ Money columns migrated. Now run `bunx prisma db push --accept-data-loss` to drop the old columns.');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Money migration failed:', error.message);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,83 @@
+// Payment Webhook Replay Script for Bookstore Management System
+//
+// Signs a sample payment event with PAYMENT_WEBHOOK_SECRET and posts it to
+// /api/webhooks/payments, so webhook handling can be exercised locally.
+//
+// Usage:
+//   bun scripts/replay-payment-webhook.ts <providerPaymentId> [succeeded|failed] [options]
+//   bun scripts/replay-payment-webhook.ts --file event.json [options]
+//
+// Options:
+//   --event-id <id>  Provider event ID (reuse one to check duplicates are ignored)
+//   --times <n>      Deliver the same event n times (default: 1)
+//   --url <url>      Webhook URL (default: http://localhost:3000/api/webhooks/payments)
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { signWebhookPayload, PAYMENT_SIGNATURE_HEADER } from '../src/lib/payment';
+import { PaymentWebhookEvent } from '../src/types/api';
+
+const DEFAULT_URL = 'http://localhost:3000/api/webhooks/payments';
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, options };
+}
+
+function buildEvent(positional: string[], options: Record<string, string>): PaymentWebhookEvent {
+  if (options.file) {
+    return JSON.parse(readFileSync(options.file, 'utf8'));
+  }
+
+  const [paymentId, outcome = 'succeeded'] = positional;
+  if (!paymentId || !['succeeded', 'failed'].includes(outcome)) {
+    throw new Error('Usage: replay-payment-webhook.ts <providerPaymentId> [succeeded|failed] [--event-id id] [--times n] [--url url]');
+  }
+
+  return {
+    id: options['event-id'] || `evt_${randomUUID()}`,
+    type: `payment.${outcome}`,
+    data: {
+      paymentId,
+      ...(outcome === 'failed' ? { failureReason: 'Card declined' } : {}),
+    },
+  };
+}
+
+async function main() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const event = buildEvent(positional, options);
+  const url = options.url || DEFAULT_URL;
+  const times = parseInt(options.times || '1');
+  const payload = JSON.stringify(event);
+
+  console.log(`📨 Delivering ${event.type} (${event.id}) to ${url}`);
+
+  for (let attempt = 1; attempt <= times; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [PAYMENT_SIGNATURE_HEADER]: signWebhookPayload(payload),
+      },
+      body: payload,
+    });
+
+    console.log(`  #${attempt}: ${response.status} ${await response.text()}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Webhook replay failed:', error.message);
+  process.exit(1);
+});
@@ -1,20 +1,53 @@
-// GET /api/books/{id} - Get book details
-// PUT /api/books/{id} - Update book (Admin only)
-// DELETE /api/books/{id} - Delete book (Admin only)
+// GET /api/books/{id} - Get book details (optionally priced in ?currency=)
+// PUT /api/books/{id} - Update book (books:update, or books:update-stock for stock only)
+// DELETE /api/books/{id} - Delete book (books:delete)
 import { NextRequest, NextResponse } from 'next/server';
 import { getBookById, updateBook, deleteBook } from '@/services/bookService';
 import { UpdateBookDTO } from '@/types/api';
-import { getAuthenticatedUser, requireAdmin } from '@/lib/authorization';
+import { getAuthenticatedUser, requirePermission, hasPermission, hasScope } from '@/lib/authorization';
+import { DEFAULT_CURRENCY, toMinorUnits, isCurrencyCode } from '@/lib/money';
 
 /**
  * GET /api/books/{id}
+ * Query params:
+ * - currency: show prices in this currency (default: store currency)
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const book = await getBookById(params.id);
+    // Public endpoint, but API keys must carry the read scope
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (user && !hasScope(user, 'books:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:read',
+          path: `/api/books/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Validate currency
+    const currency = request.nextUrl.searchParams.get('currency')?.toUpperCase();
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'currency must be a three-letter ISO 4217 code',
+          path: `/api/books/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const book = await getBookById(params.id, currency);
 
     if (!book) {
       return NextResponse.json(
@@ -30,8 +63,22 @@ export async function GET(
     }
 
     return NextResponse.json(book);
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching book:', error);
+
+    if (error.message?.includes('Unsupported currency')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: error.message,
+          path: `/api/books/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         timestamp: new Date().toISOString(),
@@ -47,7 +94,7 @@ export async function GET(
 
 /**
  * PUT /api/books/{id}
- * Update a book (Admin only)
+ * Update a book (requires books:update, or books:update-stock for stock-only changes)
  */
 export async function PUT(
   request: NextRequest,
@@ -55,7 +102,7 @@ export async function PUT(
 ) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -69,16 +116,14 @@ export async function PUT(
       );
     }
 
-    // Check admin role
-    try {
-      requireAdmin(user);
-    } catch (error) {
+    // Check API key scope
+    if (!hasScope(user, 'books:write')) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
           status: 403,
           error: 'Forbidden',
-          message: 'Admin access required',
+          message: 'API key is missing scope books:write',
           path: `/api/books/${params.id}`,
         },
         { status: 403 }
@@ -102,6 +147,26 @@ export async function PUT(
       );
     }
 
+    // Check permission (stock-only updates need just books:update-stock)
+    const isStockOnlyUpdate = Object.keys(body).every((field) => field === 'stockQuantity');
+    if (
+      !hasPermission(user, 'books:update') &&
+      !(isStockOnlyUpdate && hasPermission(user, 'books:update-stock'))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: isStockOnlyUpdate
+            ? 'Missing permission books:update-stock'
+            : 'Missing permission books:update',
+          path: `/api/books/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
     // Build DTO
     const dto: UpdateBookDTO = {};
 
@@ -112,20 +177,19 @@ export async function PUT(
     if (body.genre !== undefined) dto.genre = body.genre;
     if (body.isbn !== undefined) dto.isbn = body.isbn;
     if (body.price !== undefined) {
-      const price = parseFloat(body.price);
-      if (price < 0) {
+      if (toMinorUnits(body.price) === null) {
         return NextResponse.json(
           {
             timestamp: new Date().toISOString(),
             status: 400,
             error: 'Bad Request',
-            message: 'Price must be non-negative',
+            message: 'Price must be a non-negative decimal amount with at most 2 decimal places',
             path: `/api/books/${params.id}`,
           },
           { status: 400 }
         );
       }
-      dto.price = price;
+      dto.price = body.price;
     }
     if (body.description !== undefined) dto.description = body.description;
     if (body.stockQuantity !== undefined) {
@@ -144,7 +208,63 @@ export async function PUT(
       }
       dto.stockQuantity = stockQuantity;
     }
+    if (body.weightGrams !== undefined) {
+      // null clears the weight
+      if (body.weightGrams !== null && (!Number.isInteger(body.weightGrams) || body.weightGrams <= 0)) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'weightGrams must be a positive integer or null',
+            path: `/api/books/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.weightGrams = body.weightGrams;
+    }
     if (body.imageUrl !== undefined) dto.imageUrl = body.imageUrl;
+    if (body.taxClass !== undefined) {
+      if (typeof body.taxClass !== 'string' || !body.taxClass.trim()) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'taxClass must be a non-empty string',
+            path: `/api/books/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.taxClass = body.taxClass.trim();
+    }
+    if (body.prices !== undefined) {
+      // Per-currency price overrides, e.g. { "EUR": "11.99", "GBP": null } (null removes)
+      if (
+        typeof body.prices !== 'object' ||
+        body.prices === null ||
+        Object.entries(body.prices).some(
+          ([currency, price]) =>
+            !isCurrencyCode(currency) ||
+            currency === DEFAULT_CURRENCY ||
+            (price !== null && toMinorUnits(price as string | number) === null)
+        )
+      ) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: `prices must map currency codes other than ${DEFAULT_CURRENCY} to decimal amounts or null, e.g. { "EUR": "11.99" }`,
+            path: `/api/books/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.prices = body.prices;
+    }
 
     // Update book
     const book = await updateBook(params.id, dto);
@@ -196,7 +316,7 @@ export async function PUT(
 
 /**
  * DELETE /api/books/{id}
- * Delete a book (Admin only)
+ * Delete a book (requires books:delete)
  */
 export async function DELETE(
   request: NextRequest,
@@ -204,7 +324,7 @@ export async function DELETE(
 ) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -218,16 +338,30 @@ export async function DELETE(
       );
     }
 
-    // Check admin role
+    // Check permission
     try {
-      requireAdmin(user);
+      requirePermission(user, 'books:delete');
     } catch (error) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
           status: 403,
           error: 'Forbidden',
-          message: 'Admin access required',
+          message: 'Missing permission books:delete',
+          path: `/api/books/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'books:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:write',
           path: `/api/books/${params.id}`,
         },
         { status: 403 }
@@ -1,9 +1,10 @@
 // GET /api/books - List books with pagination, search, and filter
-// POST /api/books - Create a new book (Admin only)
+// POST /api/books - Create a new book (books:create)
 import { NextRequest, NextResponse } from 'next/server';
 import { getBooks, createBook, getGenres } from '@/services/bookService';
 import { CreateBookDTO, BookListQuery } from '@/types/api';
-import { getAuthenticatedUser, requireAdmin } from '@/lib/authorization';
+import { getAuthenticatedUser, requirePermission, hasScope } from '@/lib/authorization';
+import { DEFAULT_CURRENCY, toMinorUnits, isCurrencyCode } from '@/lib/money';
 
 /**
  * GET /api/books
@@ -13,23 +14,70 @@ import { getAuthenticatedUser, requireAdmin } from '@/lib/authorization';
  * - sort: sort field (default: createdAt), prefix with - for descending
  * - q: search query for title or author
  * - genre: filter by genre
+ * - currency: show prices in this currency (default: store currency)
  */
 export async function GET(request: NextRequest) {
   try {
+    // Public endpoint, but API keys must carry the read scope
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (user && !hasScope(user, 'books:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:read',
+          path: '/api/books',
+        },
+        { status: 403 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
+
+    // Validate currency
+    const currency = searchParams.get('currency')?.toUpperCase();
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'currency must be a three-letter ISO 4217 code',
+          path: '/api/books',
+        },
+        { status: 400 }
+      );
+    }
+
     const query: BookListQuery = {
       page: searchParams.get('page') ? parseInt(searchParams.get('page')!) : undefined,
       size: searchParams.get('size') ? parseInt(searchParams.get('size')!) : undefined,
       sort: searchParams.get('sort') || undefined,
       q: searchParams.get('q') || undefined,
       genre: searchParams.get('genre') || undefined,
+      currency,
     };
 
     const result = await getBooks(query);
 
     return NextResponse.json(result);
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching books:', error);
+
+    if (error.message?.includes('Unsupported currency')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: error.message,
+          path: '/api/books',
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         timestamp: new Date().toISOString(),
@@ -45,12 +93,12 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/books
- * Create a new book (Admin only)
+ * Create a new book (requires books:create)
  */
 export async function POST(request: NextRequest) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -64,16 +112,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check admin role
+    // Check permission
     try {
-      requireAdmin(user);
+      requirePermission(user, 'books:create');
     } catch (error) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
           status: 403,
           error: 'Forbidden',
-          message: 'Admin access required',
+          message: 'Missing permission books:create',
+          path: '/api/books',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'books:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:write',
           path: '/api/books',
         },
         { status: 403 }
@@ -84,7 +146,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
 
     // Validate required fields
-    if (!body.title || !body.authors || !body.genre || !body.isbn || !body.price || body.stockQuantity === undefined) {
+    if (!body.title || !body.authors || !body.genre || !body.isbn || body.price === undefined || body.stockQuantity === undefined) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
@@ -103,20 +165,23 @@ export async function POST(request: NextRequest) {
       authors: Array.isArray(body.authors) ? body.authors : [body.authors],
       genre: body.genre,
       isbn: body.isbn,
-      price: parseFloat(body.price),
+      price: body.price,
       description: body.description,
       stockQuantity: parseInt(body.stockQuantity),
+      weightGrams: body.weightGrams,
       imageUrl: body.imageUrl,
+      prices: body.prices,
+      taxClass: typeof body.taxClass === 'string' ? body.taxClass.trim() : body.taxClass,
     };
 
     // Validate numeric fields
-    if (dto.price < 0) {
+    if (toMinorUnits(dto.price) === null) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
           status: 400,
           error: 'Bad Request',
-          message: 'Price must be non-negative',
+          message: 'Price must be a non-negative decimal amount with at most 2 decimal places',
           path: '/api/books',
         },
         { status: 400 }
@@ -136,6 +201,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (dto.weightGrams !== undefined && (!Number.isInteger(dto.weightGrams) || dto.weightGrams <= 0)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'weightGrams must be a positive integer',
+          path: '/api/books',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (dto.taxClass !== undefined && (typeof dto.taxClass !== 'string' || !dto.taxClass)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'taxClass must be a non-empty string',
+          path: '/api/books',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate per-currency price overrides, e.g. { "EUR": "11.99" }
+    if (
+      dto.prices !== undefined &&
+      (typeof dto.prices !== 'object' ||
+        dto.prices === null ||
+        Object.entries(dto.prices).some(
+          ([currency, price]) => !isCurrencyCode(currency) || currency === DEFAULT_CURRENCY || toMinorUnits(price) === null
+        ))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `prices must map currency codes other than ${DEFAULT_CURRENCY} to decimal amounts, e.g. { "EUR": "11.99" }`,
+          path: '/api/books',
+        },
+        { status: 400 }
+      );
+    }
+
     // Create book
     const book = await createBook(dto);
 
@@ -0,0 +1,207 @@
+// POST /api/cart/checkout - Place an order for everything in the cart (Customer only, supports Idempotency-Key)
+import { NextRequest, NextResponse } from 'next/server';
+import { checkoutCart } from '@/services/cartService';
+import { CheckoutCartDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+import { withIdempotency } from '@/lib/idempotency';
+import { isCurrencyCode } from '@/lib/money';
+
+/**
+ * POST /api/cart/checkout
+ * Body: { addressId? or shippingAddress?, currency?, couponCode?, shippingMethod? }
+ * The cart is emptied once the order is placed
+ * Retries with the same Idempotency-Key header get the first response back
+ */
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, checkout);
+}
+
+/**
+ * Validate the request and turn the cart into an order
+ */
+async function checkout(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/cart/checkout',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: '/api/cart/checkout',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body (optional)
+    const body = await request.json().catch(() => ({}));
+
+    // Validate currency
+    const currency = typeof body.currency === 'string' ? body.currency.toUpperCase() : body.currency;
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'currency must be a three-letter ISO 4217 code',
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate coupon code
+    if (body.couponCode !== undefined && (typeof body.couponCode !== 'string' || !body.couponCode.trim())) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'couponCode must be a non-empty string',
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate shipping method (a ShippingMethod code)
+    if (body.shippingMethod !== undefined && (typeof body.shippingMethod !== 'string' || !body.shippingMethod.trim())) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'shippingMethod must be a non-empty string',
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate shipping address
+    if (body.addressId !== undefined && body.shippingAddress !== undefined) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Send either addressId or shippingAddress, not both',
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.addressId !== undefined && typeof body.addressId !== 'string') ||
+      (body.shippingAddress !== undefined &&
+        (typeof body.shippingAddress !== 'object' || body.shippingAddress === null || Array.isArray(body.shippingAddress)))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'addressId must be a string and shippingAddress an object',
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: CheckoutCartDTO = {
+      currency,
+      couponCode: body.couponCode?.trim(),
+      addressId: body.addressId,
+      shippingAddress: body.shippingAddress,
+      shippingMethod: body.shippingMethod?.trim().toLowerCase(),
+    };
+
+    // Turn the cart into an order
+    const order = await checkoutCart(user.userId, dto);
+
+    return NextResponse.json(order, { status: 201 });
+  } catch (error: any) {
+    console.error('Error checking out cart:', error);
+
+    const message = error.message || 'Failed to check out cart';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/cart/checkout',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('must be verified')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: '/api/cart/checkout',
+        },
+        { status: 403 }
+      );
+    }
+
+    if (
+      message.includes('Cart is empty') ||
+      message.includes('Insufficient stock') ||
+      message.includes('Unsupported currency') ||
+      message.includes('has no') ||
+      message.includes('Coupon') ||
+      message.includes('Invalid address') ||
+      message.includes('shipping address is required') ||
+      message.includes('shipping method')
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/cart/checkout',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/cart/checkout',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,276 @@
+// GET /api/cart - Get the current cart with live prices and stock (optionally priced in ?currency=)
+// POST /api/cart - Add a book to the cart
+// PATCH /api/cart - Change the quantity of a book in the cart
+// DELETE /api/cart - Remove a book (?bookId=) or empty the cart
+//
+// Signed-in users have one cart. Anonymous carts are identified by the cart_token
+// cookie, set when the first item is added, and merge into the user's cart on login.
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  CartOwner,
+  CART_COOKIE_NAME,
+  CART_COOKIE_MAX_AGE,
+} from '@/services/cartService';
+import { AddCartItemDTO, UpdateCartItemDTO, ApiKeyScope } from '@/types/api';
+import { getAuthenticatedUser, hasScope, AuthenticatedUser } from '@/lib/authorization';
+import { generateOpaqueToken } from '@/lib/auth';
+import { isCurrencyCode } from '@/lib/money';
+
+/**
+ * The signed-in user's cart, else the anonymous cart from the cookie
+ * A new anonymous token is generated when there is no cookie yet
+ */
+function getCartOwner(request: NextRequest, user: AuthenticatedUser | null): { owner: CartOwner; newToken: string | null } {
+  if (user) {
+    return { owner: { userId: user.userId }, newToken: null };
+  }
+
+  const token = request.cookies.get(CART_COOKIE_NAME)?.value;
+  if (token) {
+    return { owner: { token }, newToken: null };
+  }
+
+  const newToken = generateOpaqueToken();
+  return { owner: { token: newToken }, newToken };
+}
+
+/**
+ * Return an error response if an API key lacks the scope or ?currency= is malformed
+ */
+function checkCartRequest(request: NextRequest, user: AuthenticatedUser | null, scope: ApiKeyScope): NextResponse | null {
+  if (user && !hasScope(user, scope)) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 403,
+        error: 'Forbidden',
+        message: `API key is missing scope ${scope}`,
+        path: '/api/cart',
+      },
+      { status: 403 }
+    );
+  }
+
+  const currency = request.nextUrl.searchParams.get('currency')?.toUpperCase();
+  if (currency !== undefined && !isCurrencyCode(currency)) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 400,
+        error: 'Bad Request',
+        message: 'currency must be a three-letter ISO 4217 code',
+        path: '/api/cart',
+      },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Map cart service errors to error responses
+ */
+function cartErrorResponse(message: string): NextResponse {
+  if (message.includes('not found')) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 404,
+        error: 'Not Found',
+        message,
+        path: '/api/cart',
+      },
+      { status: 404 }
+    );
+  }
+
+  if (message.includes('Unsupported currency')) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 400,
+        error: 'Bad Request',
+        message,
+        path: '/api/cart',
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      timestamp: new Date().toISOString(),
+      status: 500,
+      error: 'Internal Server Error',
+      message,
+      path: '/api/cart',
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/cart
+ * Query params:
+ * - currency: show prices in this currency (default: store currency)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    const requestError = checkCartRequest(request, user, 'orders:read');
+    if (requestError) {
+      return requestError;
+    }
+
+    const { owner } = getCartOwner(request, user);
+    const cart = await getCart(owner, request.nextUrl.searchParams.get('currency')?.toUpperCase());
+
+    return NextResponse.json(cart);
+  } catch (error: any) {
+    console.error('Error fetching cart:', error);
+    return cartErrorResponse(error.message || 'Failed to fetch cart');
+  }
+}
+
+/**
+ * POST /api/cart
+ * Body: { bookId, quantity }
+ * Adds to the quantity already in the cart
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    const requestError = checkCartRequest(request, user, 'orders:write');
+    if (requestError) {
+      return requestError;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (typeof body.bookId !== 'string' || !Number.isInteger(body.quantity) || body.quantity <= 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'bookId and quantity (a whole number greater than 0) are required',
+          path: '/api/cart',
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: AddCartItemDTO = {
+      bookId: body.bookId,
+      quantity: body.quantity,
+    };
+
+    const { owner, newToken } = getCartOwner(request, user);
+    const cart = await addCartItem(owner, dto, request.nextUrl.searchParams.get('currency')?.toUpperCase());
+
+    const response = NextResponse.json(cart);
+
+    // Remember the new anonymous cart
+    if (newToken) {
+      response.cookies.set(CART_COOKIE_NAME, newToken, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/api',
+        maxAge: CART_COOKIE_MAX_AGE,
+      });
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Error adding to cart:', error);
+    return cartErrorResponse(error.message || 'Failed to add to cart');
+  }
+}
+
+/**
+ * PATCH /api/cart
+ * Body: { bookId, quantity } (0 removes the book)
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    const requestError = checkCartRequest(request, user, 'orders:write');
+    if (requestError) {
+      return requestError;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (typeof body.bookId !== 'string' || !Number.isInteger(body.quantity) || body.quantity < 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'bookId and quantity (a whole number, 0 to remove) are required',
+          path: '/api/cart',
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: UpdateCartItemDTO = {
+      bookId: body.bookId,
+      quantity: body.quantity,
+    };
+
+    const { owner } = getCartOwner(request, user);
+    const cart = await updateCartItem(owner, dto, request.nextUrl.searchParams.get('currency')?.toUpperCase());
+
+    return NextResponse.json(cart);
+  } catch (error: any) {
+    console.error('Error updating cart:', error);
+    return cartErrorResponse(error.message || 'Failed to update cart');
+  }
+}
+
+/**
+ * DELETE /api/cart
+ * Query params:
+ * - bookId: remove only this book (default: empty the whole cart)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    const requestError = checkCartRequest(request, user, 'orders:write');
+    if (requestError) {
+      return requestError;
+    }
+
+    const { owner } = getCartOwner(request, user);
+    const bookId = request.nextUrl.searchParams.get('bookId');
+
+    if (bookId) {
+      const cart = await removeCartItem(owner, bookId, request.nextUrl.searchParams.get('currency')?.toUpperCase());
+      return NextResponse.json(cart);
+    }
+
+    await clearCart(owner);
+
+    return NextResponse.json(
+      {
+        message: 'Cart emptied successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error removing from cart:', error);
+    return cartErrorResponse(error.message || 'Failed to remove from cart');
+  }
+}
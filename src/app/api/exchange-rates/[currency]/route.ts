@@ -0,0 +1,218 @@
+// PUT /api/exchange-rates/{currency} - Set the exchange rate for a currency (books:pricing)
+// DELETE /api/exchange-rates/{currency} - Remove the exchange rate for a currency (books:pricing)
+import { NextRequest, NextResponse } from 'next/server';
+import { setExchangeRate, deleteExchangeRate } from '@/services/exchangeRateService';
+import { getAuthenticatedUser, requirePermission, hasScope } from '@/lib/authorization';
+import { isCurrencyCode } from '@/lib/money';
+
+/**
+ * PUT /api/exchange-rates/{currency}
+ * Body: { rate } (1 unit of the store currency = rate units of currency)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { currency: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check permission
+    try {
+      requirePermission(user, 'books:pricing');
+    } catch (error) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Missing permission books:pricing',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'books:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:write',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Validate currency
+    if (!isCurrencyCode(params.currency)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Currency must be a three-letter uppercase ISO 4217 code',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate rate
+    if (typeof body.rate !== 'number' || !Number.isFinite(body.rate) || body.rate <= 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'rate must be a positive number',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rate = await setExchangeRate(params.currency, { rate: body.rate }, user.userId);
+
+    return NextResponse.json(rate);
+  } catch (error: any) {
+    console.error('Error setting exchange rate:', error);
+
+    const message = error.message || 'Failed to set exchange rate';
+
+    if (message.includes('store currency')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/exchange-rates/${params.currency}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/exchange-rates/{currency}
+ * Books without an override for the currency can no longer be priced in it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { currency: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check permission
+    try {
+      requirePermission(user, 'books:pricing');
+    } catch (error) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Missing permission books:pricing',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'books:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:write',
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    await deleteExchangeRate(params.currency);
+
+    return NextResponse.json(
+      {
+        message: 'Exchange rate deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting exchange rate:', error);
+
+    const message = error.message || 'Failed to delete exchange rate';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/exchange-rates/${params.currency}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/exchange-rates/${params.currency}`,
+      },
+      { status: 500 }
+    );
+  }
+}
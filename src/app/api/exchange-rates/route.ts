@@ -0,0 +1,46 @@
+// GET /api/exchange-rates - List exchange rates from the store currency
+import { NextRequest, NextResponse } from 'next/server';
+import { getExchangeRates } from '@/services/exchangeRateService';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+
+/**
+ * GET /api/exchange-rates
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Public endpoint, but API keys must carry the read scope
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (user && !hasScope(user, 'books:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope books:read',
+          path: '/api/exchange-rates',
+        },
+        { status: 403 }
+      );
+    }
+
+    const rates = await getExchangeRates();
+
+    return NextResponse.json({
+      baseCurrency: DEFAULT_CURRENCY,
+      rates,
+    });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch exchange rates',
+        path: '/api/exchange-rates',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// POST /api/login/2fa - Complete a two-factor login and return JWT token
+import { NextRequest, NextResponse } from 'next/server';
+import { completeTwoFactorLogin } from '@/services/authService';
+import { getLoginRetryAfter, recordLoginFailure, clearLoginFailures } from '@/services/loginThrottleService';
+import { TwoFactorLoginDTO } from '@/types/api';
+import { verifyChallengeToken } from '@/lib/auth';
+import { getClientIp } from '@/lib/request';
+import { mergeGuestCart, CART_COOKIE_NAME } from '@/services/cartService';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.challengeToken || (!body.code && !body.recoveryCode)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required fields: challengeToken, and code or recoveryCode',
+          path: '/api/login/2fa',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: TwoFactorLoginDTO = {
+      challengeToken: body.challengeToken,
+      code: body.code ? String(body.code).trim() : undefined,
+      recoveryCode: body.recoveryCode ? String(body.recoveryCode) : undefined,
+    };
+
+    const challenge = await verifyChallengeToken(dto.challengeToken);
+    if (!challenge) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Invalid or expired challenge token',
+          path: '/api/login/2fa',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Code guessing is throttled like password guessing
+    const clientIp = getClientIp(request);
+    const retryAfter = await getLoginRetryAfter(challenge.email, clientIp);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 429,
+          error: 'Too Many Requests',
+          message: `Too many failed login attempts. Try again in ${retryAfter} seconds`,
+          path: '/api/login/2fa',
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    // Verify second factor
+    let authResponse;
+    try {
+      authResponse = await completeTwoFactorLogin(dto);
+    } catch (error) {
+      await recordLoginFailure(challenge.email, clientIp);
+      throw error;
+    }
+
+    await clearLoginFailures(challenge.email);
+
+    const response = NextResponse.json(authResponse);
+
+    // Move an anonymous cart into the user's cart
+    const cartToken = request.cookies.get(CART_COOKIE_NAME)?.value;
+    if (cartToken) {
+      try {
+        await mergeGuestCart(cartToken, authResponse.user.id);
+        response.cookies.delete({ name: CART_COOKIE_NAME, path: '/api' });
+      } catch (error) {
+        // The anonymous cart is kept; a failed merge must not fail the login
+        console.error('Error merging cart:', error);
+      }
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Error completing two-factor login:', error);
+
+    const message = error.message || 'Failed to complete two-factor login';
+
+    if (message.includes('disabled')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: '/api/login/2fa',
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 401,
+        error: 'Unauthorized',
+        message: message.includes('challenge token') ? message : 'Invalid two-factor code',
+        path: '/api/login/2fa',
+      },
+      { status: 401 }
+    );
+  }
+}
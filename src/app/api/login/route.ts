@@ -1,7 +1,10 @@
 // POST /api/login - Authenticate user and return JWT token
 import { NextRequest, NextResponse } from 'next/server';
 import { loginUser } from '@/services/authService';
+import { getLoginRetryAfter, recordLoginFailure, clearLoginFailures } from '@/services/loginThrottleService';
 import { LoginDTO } from '@/types/api';
+import { getClientIp } from '@/lib/request';
+import { mergeGuestCart, CART_COOKIE_NAME } from '@/services/cartService';
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,15 +31,69 @@ export async function POST(request: NextRequest) {
       password: body.password,
     };
 
+    // Reject while the account or client IP is backing off / locked out
+    const clientIp = getClientIp(request);
+    const retryAfter = await getLoginRetryAfter(dto.email, clientIp);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 429,
+          error: 'Too Many Requests',
+          message: `Too many failed login attempts. Try again in ${retryAfter} seconds`,
+          path: '/api/login',
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
     // Login user
-    const authResponse = await loginUser(dto);
+    let authResponse;
+    try {
+      authResponse = await loginUser(dto);
+    } catch (error) {
+      await recordLoginFailure(dto.email, clientIp);
+      throw error;
+    }
+
+    // Failures are cleared once the second factor succeeds (see /api/login/2fa)
+    if (!('twoFactorRequired' in authResponse)) {
+      await clearLoginFailures(dto.email);
+    }
 
-    return NextResponse.json(authResponse);
+    const response = NextResponse.json(authResponse);
+
+    // Move an anonymous cart into the user's cart (2FA logins merge in /api/login/2fa)
+    const cartToken = request.cookies.get(CART_COOKIE_NAME)?.value;
+    if (cartToken && !('twoFactorRequired' in authResponse)) {
+      try {
+        await mergeGuestCart(cartToken, authResponse.user.id);
+        response.cookies.delete({ name: CART_COOKIE_NAME, path: '/api' });
+      } catch (error) {
+        // The anonymous cart is kept; a failed merge must not fail the login
+        console.error('Error merging cart:', error);
+      }
+    }
+
+    return response;
   } catch (error: any) {
     console.error('Error logging in user:', error);
 
     const message = error.message || 'Failed to authenticate user';
 
+    if (message.includes('disabled')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: '/api/login',
+        },
+        { status: 403 }
+      );
+    }
+
     // Return 401 for invalid credentials (don't reveal specific reason)
     return NextResponse.json(
       {
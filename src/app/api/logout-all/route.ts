@@ -0,0 +1,45 @@
+// POST /api/logout-all - Revoke every session of the current user
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeAllSessions } from '@/services/sessionService';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/logout-all',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Revoke all refresh token families for this user
+    await revokeAllSessions(user.userId);
+
+    return NextResponse.json(
+      {
+        message: 'Logged out of all sessions successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error logging out all sessions:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to log out of all sessions',
+        path: '/api/logout-all',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// POST /api/logout - Revoke the current session
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeSession } from '@/services/sessionService';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user || !user.sessionId) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/logout',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Revoke the refresh token family behind this access token
+    await revokeSession(user.sessionId);
+
+    return NextResponse.json(
+      {
+        message: 'Logged out successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error logging out user:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to log out',
+        path: '/api/logout',
+      },
+      { status: 500 }
+    );
+  }
+}
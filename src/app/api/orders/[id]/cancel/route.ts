@@ -0,0 +1,149 @@
+// POST /api/orders/{id}/cancel - Cancel a pending order (order owner, or orders:cancel with a reason)
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelOrder } from '@/services/orderService';
+import { CancelOrderDTO } from '@/types/api';
+import { getAuthenticatedUser, hasPermission, hasScope } from '@/lib/authorization';
+
+// Longest accepted cancellation reason
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * POST /api/orders/{id}/cancel
+ * Body (optional for owners): { reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body (owners may send no body at all)
+    const body = await request.json().catch(() => ({}));
+
+    // Validate reason
+    if (
+      body.reason !== undefined &&
+      (typeof body.reason !== 'string' || body.reason.trim().length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Reason must be a string of at most ${MAX_REASON_LENGTH} characters`,
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: CancelOrderDTO = {
+      reason: body.reason?.trim() || undefined,
+    };
+
+    // Cancel order (restores stock)
+    const order = await cancelOrder(
+      params.id,
+      user.userId,
+      hasPermission(user, 'orders:cancel'),
+      dto
+    );
+
+    return NextResponse.json(order);
+  } catch (error: any) {
+    console.error('Error cancelling order:', error);
+
+    const message = error.message || 'Failed to cancel order';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('your own orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (message.includes('reason is required')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Only pending orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}/cancel`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/orders/${params.id}/cancel`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// GET /api/orders/{id}/history - Get order status history (order owner or orders:read-all)
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderById, getOrderStatusHistory } from '@/services/orderService';
+import { getAuthenticatedUser, hasPermission, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/orders/{id}/history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/history`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/orders/${params.id}/history`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Get order (to check it exists and who may see it)
+    const order = await getOrderById(params.id);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Order not found',
+          path: `/api/orders/${params.id}/history`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (order owner or orders:read-all)
+    if (order.userId !== user.userId && !hasPermission(user, 'orders:read-all')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'You do not have permission to access this order',
+          path: `/api/orders/${params.id}/history`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const history = await getOrderStatusHistory(params.id);
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch order history',
+        path: `/api/orders/${params.id}/history`,
+      },
+      { status: 500 }
+    );
+  }
+}
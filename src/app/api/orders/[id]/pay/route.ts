@@ -0,0 +1,154 @@
+// POST /api/orders/{id}/pay - Pay for an order (order owner, supports Idempotency-Key)
+import { NextRequest, NextResponse } from 'next/server';
+import { payOrder } from '@/services/paymentService';
+import { PayOrderDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+import { withIdempotency } from '@/lib/idempotency';
+
+/**
+ * POST /api/orders/{id}/pay
+ * Body: { paymentMethod }
+ * Retries with the same Idempotency-Key header get the first response back
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return withIdempotency(request, (request) => payForOrder(request, params));
+}
+
+/**
+ * Validate the request and charge the order
+ */
+async function payForOrder(request: NextRequest, params: { id: string }) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.paymentMethod || typeof body.paymentMethod !== 'string') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required field: paymentMethod',
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: PayOrderDTO = {
+      paymentMethod: body.paymentMethod,
+    };
+
+    // Charge through the payment provider
+    const result = await payOrder(params.id, user.userId, dto);
+
+    // 201 paid, 202 awaiting provider confirmation, 402 declined
+    const statusCodes = { PAID: 201, PENDING: 202, FAILED: 402 };
+
+    return NextResponse.json(result, { status: statusCodes[result.payment.status] });
+  } catch (error: any) {
+    console.error('Error paying for order:', error);
+
+    const message = error.message || 'Failed to pay for order';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('your own orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (
+      message.includes('already paid') ||
+      message.includes('cannot be paid') ||
+      message.includes('awaiting confirmation')
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (message.includes('Payment provider')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 502,
+          error: 'Bad Gateway',
+          message,
+          path: `/api/orders/${params.id}/pay`,
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/orders/${params.id}/pay`,
+      },
+      { status: 500 }
+    );
+  }
+}
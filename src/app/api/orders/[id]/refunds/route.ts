@@ -0,0 +1,306 @@
+// GET /api/orders/{id}/refunds - List refunds for an order (order owner or orders:read-all)
+// POST /api/orders/{id}/refunds - Refund a paid order in full or in part (orders:refund, supports Idempotency-Key)
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderById } from '@/services/orderService';
+import { getRefunds, createRefund } from '@/services/refundService';
+import { CreateRefundDTO } from '@/types/api';
+import { getAuthenticatedUser, requirePermission, hasPermission, hasScope } from '@/lib/authorization';
+import { toMinorUnits } from '@/lib/money';
+import { withIdempotency } from '@/lib/idempotency';
+
+/**
+ * GET /api/orders/{id}/refunds
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Get order (to check it exists and who may see it)
+    const order = await getOrderById(params.id);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Order not found',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (order owner or orders:read-all)
+    if (order.userId !== user.userId && !hasPermission(user, 'orders:read-all')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'You do not have permission to access this order',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const refunds = await getRefunds(params.id);
+
+    return NextResponse.json(refunds);
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch refunds',
+        path: `/api/orders/${params.id}/refunds`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/{id}/refunds
+ * Body: { items?: [{ orderItemId, quantity }], amount?, reason? }
+ * Without items or amount, the remaining refundable balance is refunded
+ * Retries with the same Idempotency-Key header get the first response back
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return withIdempotency(request, (request) => refundOrder(request, params));
+}
+
+/**
+ * Validate the request and refund the order
+ */
+async function refundOrder(request: NextRequest, params: { id: string }) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check permission
+    try {
+      requirePermission(user, 'orders:refund');
+    } catch (error) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Missing permission orders:refund',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+
+    if (body.items !== undefined && body.amount !== undefined) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Provide either items or amount, not both',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate items
+    if (
+      body.items !== undefined &&
+      (!Array.isArray(body.items) ||
+        body.items.length === 0 ||
+        body.items.some(
+          (item: any) => !item.orderItemId || !Number.isInteger(item.quantity) || item.quantity <= 0
+        ))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'items must be a non-empty array of { orderItemId, quantity } with positive integer quantities',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.items !== undefined && new Set(body.items.map((item: any) => item.orderItemId)).size !== body.items.length) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Each order item may only be listed once',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate amount
+    if (body.amount !== undefined && !toMinorUnits(body.amount)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Amount must be a positive decimal amount with at most 2 decimal places',
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: CreateRefundDTO = {
+      items: body.items,
+      amount: body.amount,
+      reason: typeof body.reason === 'string' ? body.reason.trim() || undefined : undefined,
+    };
+
+    // Refund through the payment provider
+    const refund = await createRefund(params.id, dto, user.userId);
+
+    return NextResponse.json(refund, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating refund:', error);
+
+    const message = error.message || 'Failed to create refund';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      message.includes('exceeds') ||
+      message.includes('greater than zero') ||
+      message.includes('does not belong') ||
+      message.includes('listed once')
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Only paid orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (message.includes('Payment provider')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 502,
+          error: 'Bad Gateway',
+          message,
+          path: `/api/orders/${params.id}/refunds`,
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/orders/${params.id}/refunds`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,286 @@
+// GET /api/orders/{id}/returns/{returnId} - Get a return with its status history
+// PATCH /api/orders/{id}/returns/{returnId} - Approve, reject, receive (orders:returns) or cancel (owner) a return
+import { NextRequest, NextResponse } from 'next/server';
+import { ReturnStatus, ReturnDisposition } from '@prisma/client';
+import { getOrderById } from '@/services/orderService';
+import { getReturnById, updateReturnStatus } from '@/services/returnService';
+import { UpdateReturnDTO } from '@/types/api';
+import { getAuthenticatedUser, hasPermission, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/orders/{id}/returns/{returnId}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; returnId: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Get order (to check it exists and who may see it)
+    const order = await getOrderById(params.id);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Order not found',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (order owner, orders:read-all or orders:returns)
+    if (
+      order.userId !== user.userId &&
+      !hasPermission(user, 'orders:read-all') &&
+      !hasPermission(user, 'orders:returns')
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'You do not have permission to access this order',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const returnRequest = await getReturnById(params.id, params.returnId);
+
+    if (!returnRequest) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Return not found',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(returnRequest);
+  } catch (error) {
+    console.error('Error fetching return:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch return',
+        path: `/api/orders/${params.id}/returns/${params.returnId}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/orders/{id}/returns/{returnId}
+ * Body: { status, note?, dispositions?: [{ orderItemId, disposition }] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; returnId: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate status enum
+    const validStatuses = Object.values(ReturnStatus).filter((status) => status !== ReturnStatus.REQUESTED);
+    if (!validStatuses.includes(body.status)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Invalid status. Valid values: ${validStatuses.join(', ')}`,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate dispositions
+    const validDispositions = Object.values(ReturnDisposition);
+    if (
+      body.dispositions !== undefined &&
+      (!Array.isArray(body.dispositions) ||
+        body.dispositions.some(
+          (entry: any) => !entry.orderItemId || !validDispositions.includes(entry.disposition)
+        ))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `dispositions must be an array of { orderItemId, disposition } with disposition one of: ${validDispositions.join(', ')}`,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: UpdateReturnDTO = {
+      status: body.status,
+      note: typeof body.note === 'string' ? body.note.trim() || undefined : undefined,
+      dispositions: body.dispositions,
+    };
+
+    // Update return status (recorded in the return's history)
+    const returnRequest = await updateReturnStatus(
+      params.id,
+      params.returnId,
+      dto,
+      user.userId,
+      hasPermission(user, 'orders:returns')
+    );
+
+    return NextResponse.json(returnRequest);
+  } catch (error: any) {
+    console.error('Error updating return:', error);
+
+    const message = error.message || 'Failed to update return';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('your own returns') || message.includes('Missing permission')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (message.includes('exceeds') || message.includes('does not belong')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Cannot change return status') || message.includes('Only paid orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (message.includes('Payment provider')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 502,
+          error: 'Bad Gateway',
+          message,
+          path: `/api/orders/${params.id}/returns/${params.returnId}`,
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/orders/${params.id}/returns/${params.returnId}`,
+      },
+      { status: 500 }
+    );
+  }
+}
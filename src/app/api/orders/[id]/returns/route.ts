@@ -0,0 +1,266 @@
+// GET /api/orders/{id}/returns - List returns for an order (order owner, orders:read-all or orders:returns)
+// POST /api/orders/{id}/returns - Open a return for delivered items (order owner)
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderById } from '@/services/orderService';
+import { getReturns, createReturn } from '@/services/returnService';
+import { CreateReturnDTO } from '@/types/api';
+import { getAuthenticatedUser, hasPermission, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/orders/{id}/returns
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Get order (to check it exists and who may see it)
+    const order = await getOrderById(params.id);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Order not found',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (order owner, orders:read-all or orders:returns)
+    if (
+      order.userId !== user.userId &&
+      !hasPermission(user, 'orders:read-all') &&
+      !hasPermission(user, 'orders:returns')
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'You do not have permission to access this order',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const returns = await getReturns(params.id);
+
+    return NextResponse.json(returns);
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch returns',
+        path: `/api/orders/${params.id}/returns`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/{id}/returns
+ * Body: { items: [{ orderItemId, quantity }], reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.reason || typeof body.reason !== 'string' || !body.reason.trim()) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required field: reason',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate items
+    if (
+      !Array.isArray(body.items) ||
+      body.items.length === 0 ||
+      body.items.some(
+        (item: any) => !item.orderItemId || !Number.isInteger(item.quantity) || item.quantity <= 0
+      )
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'items must be a non-empty array of { orderItemId, quantity } with positive integer quantities',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (new Set(body.items.map((item: any) => item.orderItemId)).size !== body.items.length) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Each order item may only be listed once',
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dto: CreateReturnDTO = {
+      items: body.items.map((item: any) => ({
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+      })),
+      reason: body.reason.trim(),
+    };
+
+    // Open return
+    const returnRequest = await createReturn(params.id, user.userId, dto);
+
+    return NextResponse.json(returnRequest, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating return:', error);
+
+    const message = error.message || 'Failed to create return';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('your own orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (message.includes('exceeds') || message.includes('does not belong') || message.includes('listed once')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Only delivered orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}/returns`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/orders/${params.id}/returns`,
+      },
+      { status: 500 }
+    );
+  }
+}
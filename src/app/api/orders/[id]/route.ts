@@ -1,9 +1,9 @@
-// GET /api/orders/{id} - Get order details (Admin or order owner)
-// PUT /api/orders/{id}/status - Update order status (Admin only)
+// GET /api/orders/{id} - Get order details (order owner or orders:read-all)
+// PUT /api/orders/{id} - Update order status (orders:update-status)
 import { NextRequest, NextResponse } from 'next/server';
-import { getOrderById, updateOrderStatus, cancelOrder } from '@/services/orderService';
+import { getOrderById, updateOrderStatus } from '@/services/orderService';
 import { UpdateOrderStatusDTO } from '@/types/api';
-import { getAuthenticatedUser, isAdmin, requireAdmin, canAccessResource } from '@/lib/authorization';
+import { getAuthenticatedUser, requirePermission, hasPermission, hasScope } from '@/lib/authorization';
 
 /**
  * GET /api/orders/{id}
@@ -14,7 +14,7 @@ export async function GET(
 ) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -28,6 +28,20 @@ export async function GET(
       );
     }
 
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
     // Get order
     const order = await getOrderById(params.id);
 
@@ -44,8 +58,8 @@ export async function GET(
       );
     }
 
-    // Check permission (admin or order owner)
-    if (!canAccessResource(user, order.userId)) {
+    // Check permission (order owner or orders:read-all)
+    if (order.userId !== user.userId && !hasPermission(user, 'orders:read-all')) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
@@ -75,8 +89,8 @@ export async function GET(
 }
 
 /**
- * PUT /api/orders/{id}/status
- * Update order status (Admin only)
+ * PUT /api/orders/{id}
+ * Update order status (requires orders:update-status)
  */
 export async function PUT(
   request: NextRequest,
@@ -84,7 +98,7 @@ export async function PUT(
 ) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -98,16 +112,30 @@ export async function PUT(
       );
     }
 
-    // Check admin role
+    // Check permission
     try {
-      requireAdmin(user);
+      requirePermission(user, 'orders:update-status');
     } catch (error) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
           status: 403,
           error: 'Forbidden',
-          message: 'Admin access required',
+          message: 'Missing permission orders:update-status',
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
           path: `/api/orders/${params.id}`,
         },
         { status: 403 }
@@ -146,13 +174,42 @@ export async function PUT(
       );
     }
 
+    // Cancelling also requires the cancel permission
+    if (body.status === 'CANCELLED' && !hasPermission(user, 'orders:cancel')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Missing permission orders:cancel',
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Validate note
+    if (body.note !== undefined && typeof body.note !== 'string') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Note must be a string',
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Build DTO
     const dto: UpdateOrderStatusDTO = {
       status: body.status,
+      note: body.note?.trim() || undefined,
     };
 
-    // Update order status
-    const order = await updateOrderStatus(params.id, dto);
+    // Update order status (recorded in the order's status history)
+    const order = await updateOrderStatus(params.id, dto, user.userId);
 
     return NextResponse.json(order);
   } catch (error: any) {
@@ -173,6 +230,32 @@ export async function PUT(
       );
     }
 
+    if (message.includes('reason is required')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Cannot change order status') || message.includes('Only pending orders')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/orders/${params.id}`,
+        },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       {
         timestamp: new Date().toISOString(),
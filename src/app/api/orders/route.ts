@@ -1,9 +1,11 @@
-// GET /api/orders - List orders (Admin: all, Customer: own)
-// POST /api/orders - Place a new order (Customer only)
+// GET /api/orders - List orders (orders:read-all: all, Customer: own)
+// POST /api/orders - Place a new order (Customer only, supports Idempotency-Key)
 import { NextRequest, NextResponse } from 'next/server';
 import { getOrders, createOrder } from '@/services/orderService';
 import { CreateOrderDTO, OrderListQuery } from '@/types/api';
-import { getAuthenticatedUser, isAdmin } from '@/lib/authorization';
+import { getAuthenticatedUser, hasPermission, hasScope } from '@/lib/authorization';
+import { withIdempotency } from '@/lib/idempotency';
+import { isCurrencyCode } from '@/lib/money';
 
 /**
  * GET /api/orders
@@ -14,7 +16,7 @@ import { getAuthenticatedUser, isAdmin } from '@/lib/authorization';
 export async function GET(request: NextRequest) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -28,16 +30,31 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: '/api/orders',
+        },
+        { status: 403 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const query: OrderListQuery = {
       page: searchParams.get('page') ? parseInt(searchParams.get('page')!) : undefined,
       size: searchParams.get('size') ? parseInt(searchParams.get('size')!) : undefined,
     };
 
-    const userIsAdmin = isAdmin(user);
-    const userId = userIsAdmin ? null : user.userId;
+    // Staff with orders:read-all see every order, everyone else only their own
+    const canReadAll = hasPermission(user, 'orders:read-all');
+    const userId = canReadAll ? null : user.userId;
 
-    const result = await getOrders(userId, userIsAdmin, query);
+    const result = await getOrders(userId, canReadAll, query);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -58,11 +75,21 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/orders
  * Place a new order (Customer only)
+ * Body: { items: [{ bookId, quantity }], addressId? or shippingAddress?, currency?, couponCode?, shippingMethod? }
+ * Without addressId or shippingAddress, the order ships to the customer's default address
+ * Retries with the same Idempotency-Key header get the first response back
  */
 export async function POST(request: NextRequest) {
+  return withIdempotency(request, placeOrder);
+}
+
+/**
+ * Validate the request and place the order
+ */
+async function placeOrder(request: NextRequest) {
   try {
     // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
     if (!user) {
       return NextResponse.json(
         {
@@ -76,6 +103,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: '/api/orders',
+        },
+        { status: 403 }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
 
@@ -95,13 +136,13 @@ export async function POST(request: NextRequest) {
 
     // Validate items structure
     for (const item of body.items) {
-      if (!item.bookId || !item.quantity || item.quantity <= 0) {
+      if (!item.bookId || !Number.isInteger(item.quantity) || item.quantity <= 0) {
         return NextResponse.json(
           {
             timestamp: new Date().toISOString(),
             status: 400,
             error: 'Bad Request',
-            message: 'Each item must have bookId and quantity (greater than 0)',
+            message: 'Each item must have bookId and quantity (a positive integer)',
             path: '/api/orders',
           },
           { status: 400 }
@@ -109,9 +150,88 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate currency
+    const currency = typeof body.currency === 'string' ? body.currency.toUpperCase() : body.currency;
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'currency must be a three-letter ISO 4217 code',
+          path: '/api/orders',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate coupon code
+    if (body.couponCode !== undefined && (typeof body.couponCode !== 'string' || !body.couponCode.trim())) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'couponCode must be a non-empty string',
+          path: '/api/orders',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate shipping method (a ShippingMethod code)
+    if (body.shippingMethod !== undefined && (typeof body.shippingMethod !== 'string' || !body.shippingMethod.trim())) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'shippingMethod must be a non-empty string',
+          path: '/api/orders',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate shipping address
+    if (body.addressId !== undefined && body.shippingAddress !== undefined) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Send either addressId or shippingAddress, not both',
+          path: '/api/orders',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.addressId !== undefined && typeof body.addressId !== 'string') ||
+      (body.shippingAddress !== undefined &&
+        (typeof body.shippingAddress !== 'object' || body.shippingAddress === null || Array.isArray(body.shippingAddress)))
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'addressId must be a string and shippingAddress an object',
+          path: '/api/orders',
+        },
+        { status: 400 }
+      );
+    }
+
     // Build DTO
     const dto: CreateOrderDTO = {
       items: body.items,
+      currency,
+      couponCode: body.couponCode?.trim(),
+      addressId: body.addressId,
+      shippingAddress: body.shippingAddress,
+      shippingMethod: body.shippingMethod?.trim().toLowerCase(),
     };
 
     // Create order
@@ -136,7 +256,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (message.includes('Insufficient stock')) {
+    if (message.includes('must be verified')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: '/api/orders',
+        },
+        { status: 403 }
+      );
+    }
+
+    if (
+      message.includes('Insufficient stock') ||
+      message.includes('Unsupported currency') ||
+      message.includes('has no') ||
+      message.includes('Coupon') ||
+      message.includes('Invalid address') ||
+      message.includes('shipping address is required') ||
+      message.includes('shipping method')
+    ) {
       return NextResponse.json(
         {
           timestamp: new Date().toISOString(),
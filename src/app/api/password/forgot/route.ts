@@ -0,0 +1,53 @@
+// POST /api/password/forgot - Request a password reset token by email
+import { NextRequest, NextResponse } from 'next/server';
+import { requestPasswordReset } from '@/services/authService';
+import { ForgotPasswordDTO } from '@/types/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.email) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required field: email',
+          path: '/api/password/forgot',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: ForgotPasswordDTO = {
+      email: body.email.toLowerCase().trim(),
+    };
+
+    // Issue reset token (no-op for unknown emails)
+    await requestPasswordReset(dto);
+
+    // Same response whether or not the account exists
+    return NextResponse.json(
+      {
+        message: 'If an account exists for this email, a password reset message has been sent',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to request password reset',
+        path: '/api/password/forgot',
+      },
+      { status: 500 }
+    );
+  }
+}
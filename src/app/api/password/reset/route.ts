@@ -0,0 +1,83 @@
+// POST /api/password/reset - Set a new password using a reset token
+import { NextRequest, NextResponse } from 'next/server';
+import { resetPassword } from '@/services/authService';
+import { ResetPasswordDTO } from '@/types/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.token || !body.password) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required fields: token, password',
+          path: '/api/password/reset',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate password length
+    if (body.password.length < 6) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Password must be at least 6 characters long',
+          path: '/api/password/reset',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: ResetPasswordDTO = {
+      token: body.token,
+      password: body.password,
+    };
+
+    // Reset password
+    await resetPassword(dto);
+
+    return NextResponse.json(
+      {
+        message: 'Password has been reset. Please log in again.',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error resetting password:', error);
+
+    const message = error.message || 'Failed to reset password';
+
+    if (message.includes('reset token')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/password/reset',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/password/reset',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+// GET /api/promotions/{id} - Get a promotion (Admin only)
+// PUT /api/promotions/{id} - Update a promotion (Admin only)
+// DELETE /api/promotions/{id} - Delete a promotion; orders keep their discount lines (Admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { PromotionType } from '@prisma/client';
+import { getPromotionById, updatePromotion, deletePromotion } from '@/services/promotionService';
+import { UpdatePromotionDTO } from '@/types/api';
+import { getAuthenticatedUser, checkAdminAccess } from '@/lib/authorization';
+
+// Coupon codes are matched case-insensitively and stored in upper case
+const PROMOTION_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+/**
+ * GET /api/promotions/{id}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/promotions/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    const promotion = await getPromotionById(params.id);
+
+    if (!promotion) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Promotion not found',
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(promotion);
+  } catch (error) {
+    console.error('Error fetching promotion:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch promotion',
+        path: `/api/promotions/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/promotions/{id}
+ * Body: any promotion field; null clears an optional field
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/promotions/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (body.code !== undefined && (typeof body.code !== 'string' || !PROMOTION_CODE_PATTERN.test(body.code))) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'code must be 3-32 letters, digits, hyphens or underscores',
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.type !== undefined && !Object.values(PromotionType).includes(body.type)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Invalid type. Must be one of: ${Object.values(PromotionType).join(', ')}`,
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate validity window
+    const startsAt = body.startsAt ? new Date(body.startsAt) : body.startsAt;
+    const endsAt = body.endsAt ? new Date(body.endsAt) : body.endsAt;
+    if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'startsAt and endsAt must be valid dates',
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'active must be a boolean',
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO; type-specific fields are checked by the service
+    const dto: UpdatePromotionDTO = {
+      code: body.code,
+      description: body.description,
+      type: body.type,
+      percentOff: body.percentOff,
+      amountOff: body.amountOff,
+      buyQuantity: body.buyQuantity,
+      getQuantity: body.getQuantity,
+      genre: body.genre,
+      minSpend: body.minSpend,
+      maxUses: body.maxUses,
+      maxUsesPerCustomer: body.maxUsesPerCustomer,
+      startsAt,
+      endsAt,
+      active: body.active,
+    };
+
+    // Update promotion
+    const promotion = await updatePromotion(params.id, dto);
+
+    return NextResponse.json(promotion);
+  } catch (error: any) {
+    console.error('Error updating promotion:', error);
+
+    const message = error.message || 'Failed to update promotion';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('Invalid promotion')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('already exists')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/promotions/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/promotions/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/promotions/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Delete promotion
+    await deletePromotion(params.id);
+
+    return NextResponse.json(
+      {
+        message: 'Promotion deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting promotion:', error);
+
+    const message = error.message || 'Failed to delete promotion';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/promotions/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/promotions/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+// GET /api/promotions - List promotions with usage counts (Admin only)
+// POST /api/promotions - Create a promotion (Admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { PromotionType } from '@prisma/client';
+import { getPromotions, createPromotion } from '@/services/promotionService';
+import { CreatePromotionDTO } from '@/types/api';
+import { getAuthenticatedUser, checkAdminAccess } from '@/lib/authorization';
+
+// Coupon codes are matched case-insensitively and stored in upper case
+const PROMOTION_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+/**
+ * GET /api/promotions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, '/api/promotions');
+    if (accessError) {
+      return accessError;
+    }
+
+    const promotions = await getPromotions();
+
+    return NextResponse.json(promotions);
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch promotions',
+        path: '/api/promotions',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/promotions
+ * Body: { code, type, description?, percentOff?, amountOff?, buyQuantity?, getQuantity?,
+ *         genre?, minSpend?, maxUses?, maxUsesPerCustomer?, startsAt?, endsAt?, active? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, '/api/promotions');
+    if (accessError) {
+      return accessError;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (typeof body.code !== 'string' || !PROMOTION_CODE_PATTERN.test(body.code)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'code must be 3-32 letters, digits, hyphens or underscores',
+          path: '/api/promotions',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.values(PromotionType).includes(body.type)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Invalid type. Must be one of: ${Object.values(PromotionType).join(', ')}`,
+          path: '/api/promotions',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate validity window
+    const startsAt = body.startsAt ? new Date(body.startsAt) : null;
+    const endsAt = body.endsAt ? new Date(body.endsAt) : null;
+    if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'startsAt and endsAt must be valid dates',
+          path: '/api/promotions',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'active must be a boolean',
+          path: '/api/promotions',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO; type-specific fields are checked by the service
+    const dto: CreatePromotionDTO = {
+      code: body.code,
+      description: body.description,
+      type: body.type,
+      percentOff: body.percentOff,
+      amountOff: body.amountOff,
+      buyQuantity: body.buyQuantity,
+      getQuantity: body.getQuantity,
+      genre: body.genre,
+      minSpend: body.minSpend,
+      maxUses: body.maxUses,
+      maxUsesPerCustomer: body.maxUsesPerCustomer,
+      startsAt,
+      endsAt,
+      active: body.active,
+    };
+
+    // Create promotion
+    const promotion = await createPromotion(dto);
+
+    return NextResponse.json(promotion, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating promotion:', error);
+
+    const message = error.message || 'Failed to create promotion';
+
+    if (message.includes('Invalid promotion')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/promotions',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('already exists')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/promotions',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/promotions',
+      },
+      { status: 500 }
+    );
+  }
+}
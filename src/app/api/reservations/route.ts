@@ -0,0 +1,281 @@
+// GET /api/reservations - Get the current user's stock reservation
+// POST /api/reservations - Reserve stock for checkout, replacing any earlier reservation
+// DELETE /api/reservations - Release the current user's reservation
+import { NextRequest, NextResponse } from 'next/server';
+import { getReservation, reserveStock, releaseReservation } from '@/services/reservationService';
+import { CreateReservationDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/reservations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/reservations',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: '/api/reservations',
+        },
+        { status: 403 }
+      );
+    }
+
+    const reservation = await getReservation(user.userId);
+
+    if (!reservation) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Reservation not found',
+          path: '/api/reservations',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(reservation);
+  } catch (error) {
+    console.error('Error fetching reservation:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch reservation',
+        path: '/api/reservations',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reservations
+ * Body: { items?: [{ bookId, quantity }] } (default: the items in the user's cart)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/reservations',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: '/api/reservations',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body (optional)
+    const body = await request.json().catch(() => ({}));
+
+    // Validate items structure
+    if (body.items !== undefined) {
+      if (
+        !Array.isArray(body.items) ||
+        body.items.some(
+          (item: any) => !item || typeof item.bookId !== 'string' || !Number.isInteger(item.quantity) || item.quantity <= 0
+        )
+      ) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'Each item must have bookId and quantity (a whole number greater than 0)',
+            path: '/api/reservations',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const dto: CreateReservationDTO = {
+      items: body.items,
+    };
+
+    const reservation = await reserveStock(user.userId, dto.items);
+
+    return NextResponse.json(reservation, { status: 201 });
+  } catch (error: any) {
+    console.error('Error reserving stock:', error);
+
+    const message = error.message || 'Failed to reserve stock';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/reservations',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('must be verified')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message,
+          path: '/api/reservations',
+        },
+        { status: 403 }
+      );
+    }
+
+    if (message.includes('Nothing to reserve') || message.includes('copies of a book can be reserved')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/reservations',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('Insufficient stock') || message.includes('cannot be renewed')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/reservations',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/reservations',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reservations
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/reservations',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: '/api/reservations',
+        },
+        { status: 403 }
+      );
+    }
+
+    await releaseReservation(user.userId);
+
+    return NextResponse.json(
+      {
+        message: 'Reservation released successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error releasing reservation:', error);
+
+    const message = error.message || 'Failed to release reservation';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/reservations',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/reservations',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+// GET /api/shipping/quote - Quote every shipping method that delivers to a destination
+//
+// Quotes the given items, or else the caller's cart (signed-in or anonymous), so a
+// customer can pick a shippingMethod before placing an order.
+import { NextRequest, NextResponse } from 'next/server';
+import { getShippingQuotes } from '@/services/shippingService';
+import { getCartItems, CartOwner, CART_COOKIE_NAME } from '@/services/cartService';
+import { resolveShippingAddress } from '@/services/addressService';
+import { CreateOrderItemDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+import { isCurrencyCode } from '@/lib/money';
+
+// ISO 3166-1 alpha-2 country, and the subdivision part of ISO 3166-2 ("CA" in "US-CA")
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const REGION_CODE_PATTERN = /^[A-Z0-9]{1,3}$/;
+
+// One "bookId:quantity" pair of the items query param
+const ITEM_PATTERN = /^([^:\s]+):([1-9]\d*)$/;
+
+/**
+ * Build a 400 response for a malformed query param
+ */
+function badRequest(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      timestamp: new Date().toISOString(),
+      status: 400,
+      error: 'Bad Request',
+      message,
+      path: '/api/shipping/quote',
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET /api/shipping/quote
+ * Query params:
+ * - items: comma-separated bookId:quantity pairs (default: the caller's cart)
+ * - country, region: destination, e.g. country=US&region=CA
+ * - addressId: one of the caller's addresses instead of country/region
+ *   (default for signed-in users: their default address)
+ * - currency: quote in this currency (default: store currency)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+
+    // Check API key scope
+    if (user && !hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: '/api/shipping/quote',
+        },
+        { status: 403 }
+      );
+    }
+
+    const currency = searchParams.get('currency')?.toUpperCase();
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return badRequest('currency must be a three-letter ISO 4217 code');
+    }
+
+    // Items to ship
+    let items: CreateOrderItemDTO[];
+    const itemsParam = searchParams.get('items');
+
+    if (itemsParam !== null) {
+      const pairs = itemsParam.split(',').map((pair) => ITEM_PATTERN.exec(pair.trim()));
+      if (pairs.some((pair) => pair === null)) {
+        return badRequest('items must be comma-separated bookId:quantity pairs, e.g. items=book-id-1:2,book-id-2:1');
+      }
+
+      items = pairs.map((pair) => ({ bookId: pair![1], quantity: parseInt(pair![2]) }));
+    } else {
+      const cartToken = request.cookies.get(CART_COOKIE_NAME)?.value;
+      const owner: CartOwner | null = user ? { userId: user.userId } : cartToken ? { token: cartToken } : null;
+      items = owner ? await getCartItems(owner) : [];
+    }
+
+    if (items.length === 0) {
+      return badRequest('Nothing to quote: send items or add books to the cart');
+    }
+
+    // Destination
+    const country = searchParams.get('country')?.toUpperCase();
+    const region = searchParams.get('region')?.toUpperCase() || null;
+    const addressId = searchParams.get('addressId') || undefined;
+    let destination: { country: string; region?: string | null };
+
+    if (country !== undefined) {
+      if (addressId !== undefined) {
+        return badRequest('Send either addressId or country, not both');
+      }
+
+      if (!COUNTRY_CODE_PATTERN.test(country)) {
+        return badRequest('country must be a two-letter ISO 3166 code');
+      }
+
+      if (region !== null && !REGION_CODE_PATTERN.test(region)) {
+        return badRequest('region must be a subdivision code of up to 3 letters or digits, e.g. CA');
+      }
+
+      destination = { country, region };
+    } else if (user) {
+      destination = await resolveShippingAddress(user.userId, { addressId });
+    } else {
+      return badRequest('country is required');
+    }
+
+    const quote = await getShippingQuotes(items, destination, currency);
+
+    return NextResponse.json(quote);
+  } catch (error: any) {
+    console.error('Error quoting shipping:', error);
+
+    const message = error.message || 'Failed to quote shipping';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/shipping/quote',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('Unsupported currency') || message.includes('shipping address is required')) {
+      return badRequest(message);
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/shipping/quote',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// POST /api/token/refresh - Exchange a refresh token for a new token pair
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateRefreshToken } from '@/services/sessionService';
+import { RefreshTokenDTO } from '@/types/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.refreshToken || typeof body.refreshToken !== 'string') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required field: refreshToken',
+          path: '/api/token/refresh',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: RefreshTokenDTO = {
+      refreshToken: body.refreshToken,
+    };
+
+    // Rotate refresh token
+    const authResponse = await rotateRefreshToken(dto.refreshToken);
+
+    return NextResponse.json(authResponse);
+  } catch (error: any) {
+    console.error('Error refreshing token:', error);
+
+    const message = error.message || 'Failed to refresh token';
+
+    // Invalid, expired, revoked or reused tokens all require a new login
+    if (message.toLowerCase().includes('refresh token')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message,
+          path: '/api/token/refresh',
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/token/refresh',
+      },
+      { status: 500 }
+    );
+  }
+}
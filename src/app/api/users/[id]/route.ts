@@ -0,0 +1,272 @@
+// GET /api/users/{id} - Get user details (Admin only)
+// PATCH /api/users/{id} - Update name, role, staff roles or disabled state (Admin only)
+// DELETE /api/users/{id} - Delete a user without orders (Admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { getUserDetails, updateUser, deleteUser } from '@/services/userService';
+import { AdminUpdateUserDTO } from '@/types/api';
+import { getAuthenticatedUser, checkAdminAccess } from '@/lib/authorization';
+
+/**
+ * GET /api/users/{id}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/users/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    const targetUser = await getUserDetails(params.id);
+
+    if (!targetUser) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'User not found',
+          path: `/api/users/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(targetUser);
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch user',
+        path: `/api/users/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/users/{id}
+ * Body: { name?, role?, staffRoles?, disabled? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/users/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate at least one field is provided
+    if (
+      body.name === undefined &&
+      body.role === undefined &&
+      body.staffRoles === undefined &&
+      body.disabled === undefined
+    ) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'At least one of name, role, staffRoles or disabled must be provided',
+          path: `/api/users/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: AdminUpdateUserDTO = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'Name must be a non-empty string',
+            path: `/api/users/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.name = body.name.trim();
+    }
+
+    if (body.role !== undefined) {
+      if (!Object.values(UserRole).includes(body.role)) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: `Invalid role. Must be one of: ${Object.values(UserRole).join(', ')}`,
+            path: `/api/users/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.role = body.role;
+    }
+
+    if (body.staffRoles !== undefined) {
+      if (!Array.isArray(body.staffRoles) || body.staffRoles.some((name: unknown) => typeof name !== 'string')) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'staffRoles must be an array of role names',
+            path: `/api/users/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.staffRoles = body.staffRoles;
+    }
+
+    if (body.disabled !== undefined) {
+      if (typeof body.disabled !== 'boolean') {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'disabled must be a boolean',
+            path: `/api/users/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.disabled = body.disabled;
+    }
+
+    // Update user
+    const updatedUser = await updateUser(params.id, dto, user!.userId);
+
+    return NextResponse.json(updatedUser);
+  } catch (error: any) {
+    console.error('Error updating user:', error);
+
+    const message = error.message || 'Failed to update user';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('Unknown staff role') || message.includes('your own account')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/users/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    const accessError = checkAdminAccess(user, `/api/users/${params.id}`);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Delete user
+    await deleteUser(params.id, user!.userId);
+
+    return NextResponse.json(
+      {
+        message: 'User deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting user:', error);
+
+    const message = error.message || 'Failed to delete user';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('existing orders') || message.includes('your own account')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/users/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
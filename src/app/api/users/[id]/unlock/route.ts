@@ -0,0 +1,80 @@
+// POST /api/users/{id}/unlock - Clear failed login lockout for an account (Admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockAccount } from '@/services/loginThrottleService';
+import { getAuthenticatedUser, requireAdmin } from '@/lib/authorization';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/${params.id}/unlock`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check admin role
+    try {
+      requireAdmin(user);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Admin access required',
+          path: `/api/users/${params.id}/unlock`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Unlock account
+    await unlockAccount(params.id);
+
+    return NextResponse.json(
+      {
+        message: 'Account unlocked successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error unlocking account:', error);
+
+    const message = error.message || 'Failed to unlock account';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/${params.id}/unlock`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/${params.id}/unlock`,
+      },
+      { status: 500 }
+    );
+  }
+}
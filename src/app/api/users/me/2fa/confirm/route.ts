@@ -0,0 +1,99 @@
+// POST /api/users/me/2fa/confirm - Activate TOTP with a first code and return recovery codes
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmTwoFactor } from '@/services/twoFactorService';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/2fa/confirm',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.code) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required field: code',
+          path: '/api/users/me/2fa/confirm',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Confirm enrollment
+    const result = await confirmTwoFactor(user.userId, String(body.code).trim());
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error confirming two-factor setup:', error);
+
+    const message = error.message || 'Failed to confirm two-factor setup';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/users/me/2fa/confirm',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('Invalid two-factor code') || message.includes('not been started')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/users/me/2fa/confirm',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('already enabled')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/users/me/2fa/confirm',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me/2fa/confirm',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// POST /api/users/me/2fa/setup - Start TOTP enrollment and return an otpauth URI
+import { NextRequest, NextResponse } from 'next/server';
+import { setupTwoFactor } from '@/services/twoFactorService';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/2fa/setup',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Generate a pending secret
+    const setup = await setupTwoFactor(user.userId);
+
+    return NextResponse.json(setup, { status: 201 });
+  } catch (error: any) {
+    console.error('Error starting two-factor setup:', error);
+
+    const message = error.message || 'Failed to start two-factor setup';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/users/me/2fa/setup',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('already enabled')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/users/me/2fa/setup',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me/2fa/setup',
+      },
+      { status: 500 }
+    );
+  }
+}
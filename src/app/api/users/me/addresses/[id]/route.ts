@@ -0,0 +1,268 @@
+// GET /api/users/me/addresses/{id} - Get one of the current user's addresses
+// PATCH /api/users/me/addresses/{id} - Update an address or make it the default
+// DELETE /api/users/me/addresses/{id} - Delete an address
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddressById, updateAddress, deleteAddress } from '@/services/addressService';
+import { UpdateAddressDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/users/me/addresses/{id}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const address = await getAddressById(user.userId, params.id);
+
+    if (!address) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'Address not found',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(address);
+  } catch (error) {
+    console.error('Error fetching address:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch address',
+        path: `/api/users/me/addresses/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/users/me/addresses/{id}
+ * Body: any address field, and/or isDefault
+ * Orders already placed keep the address they were shipped to
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (body.isDefault !== undefined && typeof body.isDefault !== 'boolean') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'isDefault must be a boolean',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO; fields are validated by the service
+    const dto: UpdateAddressDTO = {
+      label: body.label,
+      recipientName: body.recipientName,
+      line1: body.line1,
+      line2: body.line2,
+      city: body.city,
+      region: body.region,
+      postalCode: body.postalCode,
+      country: body.country,
+      phone: body.phone,
+      isDefault: body.isDefault,
+    };
+
+    const address = await updateAddress(user.userId, params.id, dto);
+
+    return NextResponse.json(address);
+  } catch (error: any) {
+    console.error('Error updating address:', error);
+
+    const message = error.message || 'Failed to update address';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('Invalid address')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/me/addresses/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/me/addresses/{id}
+ * Deleting the default address makes the newest remaining address the default
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 403 }
+      );
+    }
+
+    await deleteAddress(user.userId, params.id);
+
+    return NextResponse.json(
+      {
+        message: 'Address deleted successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting address:', error);
+
+    const message = error.message || 'Failed to delete address';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/me/addresses/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/me/addresses/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
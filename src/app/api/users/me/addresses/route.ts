@@ -0,0 +1,157 @@
+// GET /api/users/me/addresses - List the current user's addresses (default first)
+// POST /api/users/me/addresses - Add an address (the first one becomes the default)
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddresses, createAddress } from '@/services/addressService';
+import { CreateAddressDTO } from '@/types/api';
+import { getAuthenticatedUser, hasScope } from '@/lib/authorization';
+
+/**
+ * GET /api/users/me/addresses
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/addresses',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:read')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:read',
+          path: '/api/users/me/addresses',
+        },
+        { status: 403 }
+      );
+    }
+
+    const addresses = await getAddresses(user.userId);
+
+    return NextResponse.json(addresses);
+  } catch (error) {
+    console.error('Error fetching addresses:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch addresses',
+        path: '/api/users/me/addresses',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users/me/addresses
+ * Body: { recipientName, line1, line2?, city, region?, postalCode, country, phone?, label?, isDefault? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request, { allowApiKey: true });
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/addresses',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check API key scope
+    if (!hasScope(user, 'orders:write')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'API key is missing scope orders:write',
+          path: '/api/users/me/addresses',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (body.isDefault !== undefined && typeof body.isDefault !== 'boolean') {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'isDefault must be a boolean',
+          path: '/api/users/me/addresses',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO; fields are validated by the service
+    const dto: CreateAddressDTO = {
+      label: body.label,
+      recipientName: body.recipientName,
+      line1: body.line1,
+      line2: body.line2,
+      city: body.city,
+      region: body.region,
+      postalCode: body.postalCode,
+      country: body.country,
+      phone: body.phone,
+      isDefault: body.isDefault,
+    };
+
+    const address = await createAddress(user.userId, dto);
+
+    return NextResponse.json(address, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating address:', error);
+
+    const message = error.message || 'Failed to create address';
+
+    if (message.includes('Invalid address')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/users/me/addresses',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me/addresses',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,242 @@
+// GET /api/users/me/api-keys/{id} - Get API key details
+// PATCH /api/users/me/api-keys/{id} - Update name, scopes or expiry
+// DELETE /api/users/me/api-keys/{id} - Revoke an API key
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyById, updateApiKey, deleteApiKey } from '@/services/apiKeyService';
+import { UpdateApiKeyDTO } from '@/types/api';
+import { getAuthenticatedUser, API_KEY_SCOPES } from '@/lib/authorization';
+
+/**
+ * GET /api/users/me/api-keys/{id}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiKey = await getApiKeyById(user.userId, params.id);
+
+    if (!apiKey) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message: 'API key not found',
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(apiKey);
+  } catch (error) {
+    console.error('Error fetching API key:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch API key',
+        path: `/api/users/me/api-keys/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/users/me/api-keys/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate at least one field is provided
+    if (Object.keys(body).length === 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'At least one field must be provided for update',
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: UpdateApiKeyDTO = {};
+
+    if (body.name !== undefined) dto.name = body.name;
+    if (body.scopes !== undefined) {
+      const invalidScopes = Array.isArray(body.scopes)
+        ? body.scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope as any))
+        : [];
+      if (!Array.isArray(body.scopes) || body.scopes.length === 0 || invalidScopes.length > 0) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: `Scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`,
+            path: `/api/users/me/api-keys/${params.id}`,
+          },
+          { status: 400 }
+        );
+      }
+      dto.scopes = Array.from(new Set(body.scopes));
+    }
+    if (body.expiresAt !== undefined) {
+      if (body.expiresAt === null) {
+        dto.expiresAt = null;
+      } else {
+        const expiresAt = new Date(body.expiresAt);
+        if (isNaN(expiresAt.getTime())) {
+          return NextResponse.json(
+            {
+              timestamp: new Date().toISOString(),
+              status: 400,
+              error: 'Bad Request',
+              message: 'expiresAt must be a valid date or null',
+              path: `/api/users/me/api-keys/${params.id}`,
+            },
+            { status: 400 }
+          );
+        }
+        dto.expiresAt = expiresAt;
+      }
+    }
+
+    // Update API key
+    const apiKey = await updateApiKey(user.userId, params.id, dto);
+
+    return NextResponse.json(apiKey);
+  } catch (error: any) {
+    console.error('Error updating API key:', error);
+
+    const message = error.message || 'Failed to update API key';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/me/api-keys/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/me/api-keys/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Delete API key
+    await deleteApiKey(user.userId, params.id);
+
+    return NextResponse.json(
+      {
+        message: 'API key revoked successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error deleting API key:', error);
+
+    const message = error.message || 'Failed to revoke API key';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: `/api/users/me/api-keys/${params.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: `/api/users/me/api-keys/${params.id}`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+// GET /api/users/me/api-keys - List the current user's API keys
+// POST /api/users/me/api-keys - Create an API key (full key returned once)
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeys, createApiKey } from '@/services/apiKeyService';
+import { CreateApiKeyDTO } from '@/types/api';
+import { getAuthenticatedUser, API_KEY_SCOPES } from '@/lib/authorization';
+
+/**
+ * GET /api/users/me/api-keys
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/api-keys',
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiKeys = await getApiKeys(user.userId);
+
+    return NextResponse.json(apiKeys);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch API keys',
+        path: '/api/users/me/api-keys',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users/me/api-keys
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/api-keys',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.name || !Array.isArray(body.scopes) || body.scopes.length === 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required fields: name, scopes (non-empty array)',
+          path: '/api/users/me/api-keys',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate scopes
+    const invalidScopes = body.scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope as any));
+    if (invalidScopes.length > 0) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Invalid scopes: ${invalidScopes.join(', ')}. Valid values: ${API_KEY_SCOPES.join(', ')}`,
+          path: '/api/users/me/api-keys',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate expiry
+    let expiresAt: Date | undefined;
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+      expiresAt = new Date(body.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'expiresAt must be a future date',
+            path: '/api/users/me/api-keys',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Build DTO
+    const dto: CreateApiKeyDTO = {
+      name: body.name,
+      scopes: Array.from(new Set(body.scopes)),
+      expiresAt,
+    };
+
+    // Create API key
+    const apiKey = await createApiKey(user.userId, dto);
+
+    return NextResponse.json(apiKey, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating API key:', error);
+
+    const message = error.message || 'Failed to create API key';
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me/api-keys',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+// PUT /api/users/me/password - Change password (requires current password)
+import { NextRequest, NextResponse } from 'next/server';
+import { changePassword } from '@/services/authService';
+import { ChangePasswordDTO } from '@/types/api';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me/password',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.currentPassword || !body.newPassword) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required fields: currentPassword, newPassword',
+          path: '/api/users/me/password',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate password length
+    if (body.newPassword.length < 6) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Password must be at least 6 characters long',
+          path: '/api/users/me/password',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: ChangePasswordDTO = {
+      currentPassword: body.currentPassword,
+      newPassword: body.newPassword,
+    };
+
+    // Change password, keeping the current session signed in
+    await changePassword(user.userId, dto, user.sessionId);
+
+    return NextResponse.json(
+      {
+        message: 'Password changed successfully',
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error changing password:', error);
+
+    const message = error.message || 'Failed to change password';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/users/me/password',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('incorrect')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/users/me/password',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me/password',
+      },
+      { status: 500 }
+    );
+  }
+}
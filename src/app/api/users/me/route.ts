@@ -1,6 +1,8 @@
 // GET /api/users/me - Get current user profile
+// PATCH /api/users/me - Update name and/or email (email requires verification)
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserById } from '@/services/authService';
+import { getUserById, updateProfile } from '@/services/authService';
+import { UpdateProfileDTO } from '@/types/api';
 import { getAuthenticatedUser } from '@/lib/authorization';
 
 export async function GET(request: NextRequest) {
@@ -52,3 +54,127 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * PATCH /api/users/me
+ * Update the current user's profile
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users/me',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate at least one field is provided
+    if (body.name === undefined && body.email === undefined) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'At least one of name, email must be provided',
+          path: '/api/users/me',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Build DTO
+    const dto: UpdateProfileDTO = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'Name must not be empty',
+            path: '/api/users/me',
+          },
+          { status: 400 }
+        );
+      }
+      dto.name = body.name.trim();
+    }
+
+    if (body.email !== undefined) {
+      // Validate email format
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (typeof body.email !== 'string' || !emailRegex.test(body.email)) {
+        return NextResponse.json(
+          {
+            timestamp: new Date().toISOString(),
+            status: 400,
+            error: 'Bad Request',
+            message: 'Invalid email format',
+            path: '/api/users/me',
+          },
+          { status: 400 }
+        );
+      }
+      dto.email = body.email.toLowerCase().trim();
+    }
+
+    // Update profile
+    const updatedUser = await updateProfile(user.userId, dto);
+
+    return NextResponse.json(updatedUser);
+  } catch (error: any) {
+    console.error('Error updating user profile:', error);
+
+    const message = error.message || 'Failed to update user profile';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/users/me',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('already registered')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/users/me',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/users/me',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+// GET /api/users - List users with pagination and filters (Admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { getUsers } from '@/services/userService';
+import { UserListQuery } from '@/types/api';
+import { getAuthenticatedUser, requireAdmin } from '@/lib/authorization';
+
+/**
+ * GET /api/users
+ * Query params:
+ * - page: page number (default: 1)
+ * - size: items per page (default: 10, max: 100)
+ * - role: filter by role (ADMIN or CUSTOMER)
+ * - email: filter by partial email match
+ * - createdFrom: only users created on or after this date (ISO 8601)
+ * - createdTo: only users created on or before this date (ISO 8601)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/users',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check admin role
+    try {
+      requireAdmin(user);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 403,
+          error: 'Forbidden',
+          message: 'Admin access required',
+          path: '/api/users',
+        },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    // Validate role filter
+    const role = searchParams.get('role');
+    if (role && !Object.values(UserRole).includes(role as UserRole)) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: `Invalid role. Must be one of: ${Object.values(UserRole).join(', ')}`,
+          path: '/api/users',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate date filters
+    const createdFrom = searchParams.get('createdFrom') ? new Date(searchParams.get('createdFrom')!) : undefined;
+    const createdTo = searchParams.get('createdTo') ? new Date(searchParams.get('createdTo')!) : undefined;
+    if ((createdFrom && isNaN(createdFrom.getTime())) || (createdTo && isNaN(createdTo.getTime()))) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'createdFrom and createdTo must be valid dates',
+          path: '/api/users',
+        },
+        { status: 400 }
+      );
+    }
+
+    const query: UserListQuery = {
+      page: searchParams.get('page') ? parseInt(searchParams.get('page')!) : undefined,
+      size: searchParams.get('size') ? parseInt(searchParams.get('size')!) : undefined,
+      role: (role as UserRole) || undefined,
+      email: searchParams.get('email') || undefined,
+      createdFrom,
+      createdTo,
+    };
+
+    const result = await getUsers(query);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch users',
+        path: '/api/users',
+      },
+      { status: 500 }
+    );
+  }
+}
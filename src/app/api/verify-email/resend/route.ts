@@ -0,0 +1,74 @@
+// POST /api/verify-email/resend - Re-send the email verification link
+import { NextRequest, NextResponse } from 'next/server';
+import { resendEmailVerification } from '@/services/authService';
+import { getAuthenticatedUser } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Authentication required',
+          path: '/api/verify-email/resend',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Issue a fresh verification token
+    await resendEmailVerification(user.userId);
+
+    return NextResponse.json(
+      {
+        message: 'Verification email sent',
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Error resending verification email:', error);
+
+    const message = error.message || 'Failed to resend verification email';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/verify-email/resend',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (message.includes('already verified')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/verify-email/resend',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/verify-email/resend',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// GET /api/verify-email?token= - Confirm ownership of an email address
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEmail } from '@/services/authService';
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+
+    // Validate required params
+    if (!token) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Missing required query parameter: token',
+          path: '/api/verify-email',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify email
+    const user = await verifyEmail(token);
+
+    return NextResponse.json({
+      message: 'Email verified successfully',
+      user,
+    });
+  } catch (error: any) {
+    console.error('Error verifying email:', error);
+
+    const message = error.message || 'Failed to verify email';
+
+    if (message.includes('verification token')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message,
+          path: '/api/verify-email',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (message.includes('already registered')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path: '/api/verify-email',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/verify-email',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// POST /api/webhooks/payments - Receive payment provider events (HMAC-signed)
+import { NextRequest, NextResponse } from 'next/server';
+import { handlePaymentWebhook } from '@/services/paymentService';
+import { getPaymentProvider, verifyWebhookSignature, PAYMENT_SIGNATURE_HEADER } from '@/lib/payment';
+import { PaymentWebhookEvent } from '@/types/api';
+
+/**
+ * POST /api/webhooks/payments
+ * Headers: x-payment-signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ * Body: { id, type, data: { paymentId, failureReason? } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the signature against the raw body
+    const rawPayload = await request.text();
+    if (!verifyWebhookSignature(rawPayload, request.headers.get(PAYMENT_SIGNATURE_HEADER))) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 401,
+          error: 'Unauthorized',
+          message: 'Invalid webhook signature',
+          path: '/api/webhooks/payments',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate the event
+    let event: PaymentWebhookEvent;
+    try {
+      event = JSON.parse(rawPayload);
+    } catch {
+      event = {} as PaymentWebhookEvent;
+    }
+
+    if (!event.id || !event.type || !event.data?.paymentId) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 400,
+          error: 'Bad Request',
+          message: 'Webhook event must include id, type and data.paymentId',
+          path: '/api/webhooks/payments',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await handlePaymentWebhook(getPaymentProvider().name, event, rawPayload);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error handling payment webhook:', error);
+
+    const message = error.message || 'Failed to handle payment webhook';
+
+    if (message.includes('not found')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 404,
+          error: 'Not Found',
+          message,
+          path: '/api/webhooks/payments',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path: '/api/webhooks/payments',
+      },
+      { status: 500 }
+    );
+  }
+}
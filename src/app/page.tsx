@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { Book, Users, ShoppingCart, Lock, Copy, Check } from 'lucide-react';
 
 interface Endpoint {
@@ -30,7 +31,7 @@ const bookEndpoints: Endpoint[] = [
     path: '/api/books',
     description: 'Get paginated list of books with search and filter options',
     auth: false,
-    params: 'page (optional), size (optional), sort (optional), q (search), genre (filter)',
+    params: 'page (optional), size (optional), sort (optional), q (search), genre (filter), currency (optional)',
     response: {
       data: [
         {
@@ -39,7 +40,8 @@ const bookEndpoints: Endpoint[] = [
           authors: ['string'],
           genre: 'string',
           isbn: 'string',
-          price: 12.99,
+          price: '12.99',
+          currency: 'USD',
           stockQuantity: 50,
         },
       ],
@@ -56,13 +58,16 @@ const bookEndpoints: Endpoint[] = [
     path: '/api/books/{id}',
     description: 'Get details of a specific book',
     auth: false,
+    params: 'currency (optional, e.g. EUR)',
     response: {
       id: 'string',
       title: 'string',
       authors: ['string'],
       genre: 'string',
       isbn: 'string',
-      price: 12.99,
+      price: '12.99',
+      currency: 'USD',
+      prices: { EUR: '11.99' },
       stockQuantity: 50,
       description: 'string',
       imageUrl: 'string',
@@ -71,7 +76,7 @@ const bookEndpoints: Endpoint[] = [
   {
     method: 'POST',
     path: '/api/books',
-    description: 'Create a new book',
+    description: 'Create a new book (books:create)',
     auth: true,
     adminOnly: true,
     requestBody: {
@@ -79,27 +84,53 @@ const bookEndpoints: Endpoint[] = [
       authors: ['F. Scott Fitzgerald'],
       genre: 'Classic Literature',
       isbn: '9780743273565',
-      price: 12.99,
+      price: '12.99',
       description: 'A masterpiece of American fiction',
       stockQuantity: 50,
+      weightGrams: 340,
       imageUrl: 'https://example.com/image.jpg',
+      prices: { EUR: '11.99', GBP: '9.99' },
+      taxClass: 'books',
     },
   },
   {
     method: 'PUT',
     path: '/api/books/{id}',
-    description: 'Update an existing book',
+    description: 'Update an existing book (books:update, or books:update-stock for stock only)',
     auth: true,
     adminOnly: true,
     requestBody: {
-      price: 14.99,
+      price: '14.99',
       stockQuantity: 40,
     },
   },
   {
     method: 'DELETE',
     path: '/api/books/{id}',
-    description: 'Delete a book',
+    description: 'Delete a book (books:delete)',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'GET',
+    path: '/api/exchange-rates',
+    description: 'List exchange rates from the store currency',
+    auth: false,
+  },
+  {
+    method: 'PUT',
+    path: '/api/exchange-rates/{currency}',
+    description: 'Set the exchange rate for a currency (books:pricing)',
+    auth: true,
+    adminOnly: true,
+    requestBody: {
+      rate: 0.92,
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/exchange-rates/{currency}',
+    description: 'Remove the exchange rate for a currency (books:pricing)',
     auth: true,
     adminOnly: true,
   },
@@ -119,7 +150,9 @@ const authEndpoints: Endpoint[] = [
     response: {
       token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
       tokenType: 'Bearer',
-      expiresIn: 604800,
+      expiresIn: 900,
+      refreshToken: 'x8Jp2...',
+      refreshExpiresIn: 2592000,
       user: {
         id: 'string',
         name: 'string',
@@ -140,7 +173,9 @@ const authEndpoints: Endpoint[] = [
     response: {
       token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
       tokenType: 'Bearer',
-      expiresIn: 604800,
+      expiresIn: 900,
+      refreshToken: 'x8Jp2...',
+      refreshExpiresIn: 2592000,
       user: {
         id: 'string',
         name: 'string',
@@ -149,6 +184,197 @@ const authEndpoints: Endpoint[] = [
       },
     },
   },
+  {
+    method: 'POST',
+    path: '/api/login/2fa',
+    description: 'Complete a two-factor login with a TOTP or recovery code',
+    auth: false,
+    requestBody: {
+      challengeToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      code: '123456',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/users/me/2fa/setup',
+    description: 'Start TOTP enrollment and receive an otpauth URI',
+    auth: true,
+    response: {
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUri: 'otpauth://totp/Bookstore:admin%40bookstore.com?secret=JBSWY3DPEHPK3PXP&issuer=Bookstore',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/users/me/2fa/confirm',
+    description: 'Activate 2FA with a first code and receive one-time recovery codes',
+    auth: true,
+    requestBody: {
+      code: '123456',
+    },
+    response: {
+      recoveryCodes: ['3f9a1-c07be'],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/users/me/api-keys',
+    description: 'List your API keys (secrets are never returned)',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/me/api-keys',
+    description: 'Create a scoped API key (use as "Authorization: ApiKey <key>")',
+    auth: true,
+    requestBody: {
+      name: 'Warehouse sync',
+      scopes: ['books:read', 'books:write'],
+      expiresAt: '2027-01-01T00:00:00.000Z',
+    },
+    response: {
+      id: 'string',
+      name: 'Warehouse sync',
+      prefix: 'bk_Qm9va3N',
+      scopes: ['books:read', 'books:write'],
+      key: 'bk_Qm9va3N0b3JlIGFwaSBrZXkgZXhhbXBsZQ...',
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/api/users/me/api-keys/{id}',
+    description: 'Update an API key name, scopes or expiry',
+    auth: true,
+    requestBody: {
+      scopes: ['books:read'],
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/users/me/api-keys/{id}',
+    description: 'Revoke an API key',
+    auth: true,
+  },
+  {
+    method: 'GET',
+    path: '/api/users/me/addresses',
+    description: 'List your addresses (default first)',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/me/addresses',
+    description: 'Add an address (the first one becomes the default)',
+    auth: true,
+    requestBody: {
+      label: 'Home (optional)',
+      recipientName: 'John Doe',
+      line1: '350 Fifth Avenue',
+      line2: 'Floor 20 (optional)',
+      city: 'New York',
+      region: 'NY (optional)',
+      postalCode: '10118',
+      country: 'US',
+      phone: '+1 212 555 0100 (optional)',
+      isDefault: true,
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/api/users/me/addresses/{id}',
+    description: 'Update an address or make it the default (placed orders keep their copy)',
+    auth: true,
+    requestBody: {
+      isDefault: true,
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/users/me/addresses/{id}',
+    description: 'Delete an address',
+    auth: true,
+  },
+  {
+    method: 'GET',
+    path: '/api/users',
+    description: 'List users (filter by role, email, created date)',
+    auth: true,
+    adminOnly: true,
+    params: 'page (optional), size (optional), role (filter), email (search), createdFrom, createdTo (date range)',
+  },
+  {
+    method: 'GET',
+    path: '/api/users/{id}',
+    description: 'Get user details including staff roles',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'PATCH',
+    path: '/api/users/{id}',
+    description: 'Promote, demote, assign staff roles, or disable a user',
+    auth: true,
+    adminOnly: true,
+    requestBody: {
+      role: 'CUSTOMER',
+      staffRoles: ['support'],
+      disabled: true,
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/users/{id}',
+    description: 'Delete a user without orders',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/{id}/unlock',
+    description: 'Clear a login lockout for an account',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/token/refresh',
+    description: 'Rotate a refresh token and receive a new token pair',
+    auth: false,
+    requestBody: {
+      refreshToken: 'x8Jp2...',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/logout',
+    description: 'Revoke the current session',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/logout-all',
+    description: 'Revoke all sessions of the current user',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/password/forgot',
+    description: 'Request a single-use password reset token by email',
+    auth: false,
+    requestBody: {
+      email: 'john@example.com',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/password/reset',
+    description: 'Set a new password with a reset token (revokes all sessions)',
+    auth: false,
+    requestBody: {
+      token: 'string',
+      password: 'newpassword123',
+    },
+  },
   {
     method: 'GET',
     path: '/api/users/me',
@@ -162,13 +388,45 @@ const authEndpoints: Endpoint[] = [
       createdAt: '2024-01-01T00:00:00.000Z',
     },
   },
+  {
+    method: 'PATCH',
+    path: '/api/users/me',
+    description: 'Update name and email (new email applies after verification)',
+    auth: true,
+    requestBody: {
+      name: 'John Q. Doe',
+      email: 'john.doe@example.com',
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/api/users/me/password',
+    description: 'Change password (requires the current password)',
+    auth: true,
+    requestBody: {
+      currentPassword: 'password123',
+      newPassword: 'newpassword456',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/verify-email?token={token}',
+    description: 'Confirm an email address from a verification link',
+    auth: false,
+  },
+  {
+    method: 'POST',
+    path: '/api/verify-email/resend',
+    description: 'Re-send the email verification link',
+    auth: true,
+  },
 ];
 
 const orderEndpoints: Endpoint[] = [
   {
     method: 'POST',
     path: '/api/orders',
-    description: 'Place a new order (validates stock availability)',
+    description: 'Place a new order (validates stock availability, requires a verified email, ships to the default address unless addressId or shippingAddress is sent; send Idempotency-Key to retry safely)',
     auth: true,
     requestBody: {
       items: [
@@ -177,19 +435,37 @@ const orderEndpoints: Endpoint[] = [
           quantity: 2,
         },
       ],
+      addressId: 'string (optional)',
+      shippingMethod: 'standard (optional)',
+      currency: 'USD (optional)',
+      couponCode: 'WELCOME10 (optional)',
     },
     response: {
       id: 'string',
       userId: 'string',
-      totalPrice: 25.98,
+      subtotal: '25.98',
+      discount: '0.00',
+      discounts: [],
+      tax: '1.88',
+      shipping: '3.99',
+      totalPrice: '31.85',
+      currency: 'USD',
+      exchangeRate: 1,
+      taxRegion: 'US-CA',
+      shippingAddress: { recipientName: 'John Doe', line1: '1 Market Street', city: 'San Francisco', region: 'CA', postalCode: '94105', country: 'US' },
+      shippingMethod: 'standard',
+      taxBreakdown: [{ taxClass: 'books', rate: 0.0725, net: '25.98', tax: '1.88' }],
       orderStatus: 'PENDING',
       paymentStatus: 'PENDING',
       orderItems: [
         {
           bookId: 'string',
           quantity: 2,
-          unitPrice: 12.99,
-          subtotal: 25.98,
+          unitPrice: '12.99',
+          subtotal: '25.98',
+          taxRate: 0.0725,
+          tax: '1.88',
+          total: '27.86',
         },
       ],
     },
@@ -197,26 +473,256 @@ const orderEndpoints: Endpoint[] = [
   {
     method: 'GET',
     path: '/api/orders',
-    description: 'List orders (Admin: all, Customer: own orders)',
+    description: 'List orders (orders:read-all: all, Customer: own orders)',
     auth: true,
     params: 'page (optional), size (optional)',
   },
   {
     method: 'GET',
     path: '/api/orders/{id}',
-    description: 'Get order details (Admin or order owner)',
+    description: 'Get order details (orders:read-all or order owner)',
     auth: true,
   },
   {
     method: 'PUT',
-    path: '/api/orders/{id}/status',
-    description: 'Update order status (Admin only)',
+    path: '/api/orders/{id}',
+    description: 'Update order status along allowed transitions (orders:update-status)',
     auth: true,
     adminOnly: true,
     requestBody: {
       status: 'SHIPPED',
+      note: 'Tracking number 1Z999AA10123456784',
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/orders/{id}/pay',
+    description: 'Pay for an order through the payment provider (order owner; send Idempotency-Key to retry safely)',
+    auth: true,
+    requestBody: {
+      paymentMethod: 'mock_card_success',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/{id}/refunds',
+    description: 'List refunds for an order (orders:read-all or order owner)',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/orders/{id}/refunds',
+    description: 'Refund a paid order in full, by item, or by amount (orders:refund; send Idempotency-Key to retry safely)',
+    auth: true,
+    adminOnly: true,
+    requestBody: {
+      items: [{ orderItemId: 'string', quantity: 1 }],
+      reason: 'Damaged in transit',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/{id}/returns',
+    description: 'List returns for an order (order owner, orders:read-all or orders:returns)',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/orders/{id}/returns',
+    description: 'Open a return for items of a delivered order (order owner)',
+    auth: true,
+    requestBody: {
+      items: [{ orderItemId: 'string', quantity: 1 }],
+      reason: 'Pages are misprinted',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/{id}/returns/{returnId}',
+    description: 'Get a return with its status history',
+    auth: true,
+  },
+  {
+    method: 'PATCH',
+    path: '/api/orders/{id}/returns/{returnId}',
+    description: 'Approve (refunds items), reject or receive a return (orders:returns); owner can cancel',
+    auth: true,
+    requestBody: {
+      status: 'APPROVED | REJECTED | RECEIVED | CANCELLED',
+      note: 'string (optional)',
+      dispositions: [{ orderItemId: 'string', disposition: 'RESTOCK | DAMAGED' }],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/webhooks/payments',
+    description: 'Payment provider events (X-Payment-Signature HMAC, duplicates ignored)',
+    auth: false,
+    requestBody: {
+      id: 'evt_123',
+      type: 'payment.succeeded',
+      data: { paymentId: 'mock_8c6f...' },
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/{id}/history',
+    description: 'Get order status history (orders:read-all or order owner)',
+    auth: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/orders/{id}/cancel',
+    description: 'Cancel a pending order and restore stock (owner, or orders:cancel with a reason)',
+    auth: true,
+    requestBody: {
+      reason: 'Ordered the wrong edition',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/cart',
+    description: 'Get the cart with live prices and stock (signed in, or anonymous via the cart_token cookie)',
+    auth: false,
+    params: 'currency (optional, e.g. EUR)',
+    response: {
+      id: 'string',
+      currency: 'EUR',
+      items: [{ bookId: 'string', quantity: 2, unitPrice: '11.99', subtotal: '23.98', inStock: true }],
+      itemCount: 2,
+      subtotal: '23.98',
     },
   },
+  {
+    method: 'POST',
+    path: '/api/cart',
+    description: 'Add a book to the cart (sets the cart_token cookie for anonymous carts)',
+    auth: false,
+    requestBody: {
+      bookId: 'string',
+      quantity: 1,
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/api/cart',
+    description: 'Change the quantity of a book in the cart (0 removes it)',
+    auth: false,
+    requestBody: {
+      bookId: 'string',
+      quantity: 3,
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/cart',
+    description: 'Remove a book (?bookId=) or empty the cart',
+    auth: false,
+  },
+  {
+    method: 'POST',
+    path: '/api/cart/checkout',
+    description: 'Place an order for everything in the cart, then empty it (send Idempotency-Key to retry safely)',
+    auth: true,
+    requestBody: {
+      addressId: 'string (optional)',
+      shippingMethod: 'standard (optional)',
+      currency: 'USD (optional)',
+      couponCode: 'WELCOME10 (optional)',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/shipping/quote',
+    description: 'Quote shipping methods for items or the cart, cheapest first (pick one as shippingMethod)',
+    auth: false,
+    params: 'items (optional, bookId:quantity,...; default: cart), country and region, or addressId (signed in; default: default address), currency (optional)',
+    response: {
+      currency: 'USD',
+      region: 'US-CA',
+      itemCount: 2,
+      weightGrams: 680,
+      quotes: [
+        { method: 'standard', name: 'Standard', rateBasis: 'ITEM_COUNT', cost: '3.99' },
+        { method: 'express', name: 'Express', rateBasis: 'WEIGHT', cost: '12.99' },
+      ],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/reservations',
+    description: 'Hold stock for checkout (items default to the cart; expires after STOCK_RESERVATION_TTL_MINUTES)',
+    auth: true,
+    requestBody: {
+      items: [{ bookId: 'string', quantity: 2 }],
+    },
+    response: {
+      id: 'string',
+      items: [{ bookId: 'string', quantity: 2 }],
+      expiresAt: '2024-01-01T00:15:00.000Z',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/reservations',
+    description: 'Get your current stock reservation',
+    auth: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/reservations',
+    description: 'Release your stock reservation',
+    auth: true,
+  },
+  {
+    method: 'GET',
+    path: '/api/promotions',
+    description: 'List promotions with usage counts',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/promotions',
+    description: 'Create a coupon promotion (PERCENTAGE, FIXED_AMOUNT or BUY_X_GET_Y)',
+    auth: true,
+    adminOnly: true,
+    requestBody: {
+      code: 'SPRING15',
+      type: 'PERCENTAGE',
+      percentOff: 15,
+      genre: 'Science Fiction (optional)',
+      minSpend: '20.00 (optional)',
+      maxUses: 500,
+      maxUsesPerCustomer: 1,
+      startsAt: '2024-03-01T00:00:00.000Z (optional)',
+      endsAt: '2024-04-01T00:00:00.000Z (optional)',
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/promotions/{id}',
+    description: 'Get a promotion',
+    auth: true,
+    adminOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/promotions/{id}',
+    description: 'Update a promotion; null clears an optional field',
+    auth: true,
+    adminOnly: true,
+    requestBody: {
+      active: false,
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/api/promotions/{id}',
+    description: 'Delete a promotion (orders keep their discount lines)',
+    auth: true,
+    adminOnly: true,
+  },
 ];
 
 function EndpointCard({ endpoint }: { endpoint: Endpoint }) {
@@ -236,6 +742,8 @@ function EndpointCard({ endpoint }: { endpoint: Endpoint }) {
         return 'bg-blue-500';
       case 'PUT':
         return 'bg-yellow-500';
+      case 'PATCH':
+        return 'bg-orange-500';
       case 'DELETE':
         return 'bg-red-500';
       default:
@@ -307,6 +815,8 @@ function EndpointCard({ endpoint }: { endpoint: Endpoint }) {
 
 function InteractiveTester() {
   const [token, setToken] = useState('');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [otpCode, setOtpCode] = useState('');
   const [result, setResult] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -333,6 +843,14 @@ function InteractiveTester() {
       const response = await fetch(path, options);
       const data = await response.json();
       setResult(JSON.stringify(data, null, 2));
+
+      // Logins for accounts with 2FA return a challenge instead of a token
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        setOtpCode('');
+      } else if (path === '/api/login/2fa' && response.ok) {
+        setChallengeToken('');
+      }
     } catch (error) {
       setResult(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }, null, 2));
     } finally {
@@ -404,6 +922,29 @@ function InteractiveTester() {
               >
                 Login (Admin)
               </Button>
+              {challengeToken && (
+                <div className="space-y-2 border rounded p-3">
+                  <Label>Two-Factor Code</Label>
+                  <InputOTP maxLength={6} value={otpCode} onChange={setOtpCode}>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={otpCode.length !== 6}
+                    onClick={() => testEndpoint('POST', '/api/login/2fa', {
+                      challengeToken,
+                      code: otpCode,
+                    })}
+                  >
+                    Verify Code
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
 
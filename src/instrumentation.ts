@@ -0,0 +1,13 @@
+// Server Instrumentation for Bookstore Management System
+// Next.js calls register() once when a server process starts; background jobs start here.
+
+export async function register() {
+  // Prisma and timers are only available in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertMailerConfigured } = await import('@/lib/mailer');
+    assertMailerConfigured();
+
+    const { startReservationSweeper } = await import('@/services/reservationService');
+    startReservationSweeper();
+  }
+}
@@ -1,15 +1,41 @@
 // JWT Authentication Utilities for Bookstore Management System
 import { SignJWT, jwtVerify } from 'jose';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { UserRole } from '@prisma/client';
 
 // JWT Configuration
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = '7d'; // 7 days
+const JWT_EXPIRES_IN = '15m'; // 15 minutes
+const CHALLENGE_EXPIRES_IN = '5m'; // 5 minutes to complete a 2FA login
+const CHALLENGE_PURPOSE = 'login-2fa';
+
+// Refresh token configuration
+const REFRESH_TOKEN_EXPIRES_IN_DAYS = 30;
+
+// Secret for signing identity headers injected by middleware
+const IDENTITY_HEADER_SECRET = process.env.IDENTITY_HEADER_SECRET || `identity:${JWT_SECRET}`;
+const IDENTITY_MAX_AGE_MS = 60 * 1000; // Signed headers only need to outlive one request
+
+// Internal identity headers (only ever set by src/middleware.ts)
+export const IDENTITY_HEADERS = {
+  userId: 'x-user-id',
+  email: 'x-user-email',
+  role: 'x-user-role',
+  sessionId: 'x-user-session',
+  issuedAt: 'x-user-issued-at',
+  signature: 'x-user-signature',
+} as const;
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId: string; // Refresh token family the access token was issued for
+}
+
+export interface ChallengePayload {
+  userId: string;
+  email: string;
 }
 
 /**
@@ -34,11 +60,17 @@ export async function verifyToken(token: string): Promise<JWTPayload | null> {
   try {
     const secret = new TextEncoder().encode(JWT_SECRET);
     const { payload } = await jwtVerify(token, secret);
-    
+
+    // Challenge tokens are not access tokens
+    if (payload.purpose) {
+      return null;
+    }
+
     return {
       userId: payload.userId as string,
       email: payload.email as string,
       role: payload.role as UserRole,
+      sessionId: payload.sessionId as string,
     };
   } catch (error) {
     console.error('Token verification failed:', error);
@@ -46,6 +78,48 @@ export async function verifyToken(token: string): Promise<JWTPayload | null> {
   }
 }
 
+/**
+ * Generate a short-lived token proving the password step of a 2FA login
+ */
+export async function generateChallengeToken(payload: ChallengePayload): Promise<string> {
+  const secret = new TextEncoder().encode(JWT_SECRET);
+
+  return new SignJWT({ ...payload, purpose: CHALLENGE_PURPOSE })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(CHALLENGE_EXPIRES_IN)
+    .sign(secret);
+}
+
+/**
+ * Verify and decode a 2FA challenge token
+ */
+export async function verifyChallengeToken(token: string): Promise<ChallengePayload | null> {
+  try {
+    const secret = new TextEncoder().encode(JWT_SECRET);
+    const { payload } = await jwtVerify(token, secret);
+
+    if (payload.purpose !== CHALLENGE_PURPOSE) {
+      return null;
+    }
+
+    return {
+      userId: payload.userId as string,
+      email: payload.email as string,
+    };
+  } catch (error) {
+    console.error('Challenge token verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Calculate challenge token expiration time in seconds
+ */
+export function getChallengeExpiresIn(): number {
+  return 5 * 60; // 5 minutes in seconds
+}
+
 /**
  * Extract token from Authorization header
  */
@@ -62,6 +136,22 @@ export function extractTokenFromHeader(authHeader: string | null): string | null
   return parts[1];
 }
 
+/**
+ * Extract API key from an "Authorization: ApiKey <key>" header
+ */
+export function extractApiKeyFromHeader(authHeader: string | null): string | null {
+  if (!authHeader) {
+    return null;
+  }
+
+  const parts = authHeader.split(' ');
+  if (parts.length !== 2 || parts[0] !== 'ApiKey') {
+    return null;
+  }
+
+  return parts[1];
+}
+
 /**
  * Hash password using BCrypt
  */
@@ -83,5 +173,50 @@ export async function comparePassword(password: string, hash: string): Promise<b
  * Calculate token expiration time in seconds
  */
 export function getTokenExpiresIn(): number {
-  return 7 * 24 * 60 * 60; // 7 days in seconds
+  return 15 * 60; // 15 minutes in seconds
+}
+
+/**
+ * Generate an opaque, URL-safe random token (refresh tokens, one-time links)
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash an opaque token for storage (SHA-256, hex encoded)
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Calculate refresh token expiration time in seconds
+ */
+export function getRefreshTokenExpiresIn(): number {
+  return REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60; // 30 days in seconds
+}
+
+/**
+ * Sign the identity headers derived from a verified JWT
+ */
+export function signIdentity(payload: JWTPayload, issuedAt: number): string {
+  return createHmac('sha256', IDENTITY_HEADER_SECRET)
+    .update([payload.userId, payload.email, payload.role, payload.sessionId, issuedAt].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Verify an identity header signature in constant time
+ * Signatures issued more than a minute ago are stale, so captured headers cannot be replayed.
+ */
+export function verifyIdentitySignature(payload: JWTPayload, issuedAt: number, signature: string): boolean {
+  if (!Number.isSafeInteger(issuedAt) || Math.abs(Date.now() - issuedAt) > IDENTITY_MAX_AGE_MS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signIdentity(payload, issuedAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
 }
@@ -0,0 +1,110 @@
+/// <reference types="bun-types" />
+// Tests for identity header verification in getAuthenticatedUser
+import { describe, expect, mock, test } from 'bun:test';
+import { NextRequest } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { generateToken, signIdentity, IDENTITY_HEADERS, JWTPayload } from '@/lib/auth';
+
+// Keep the database out of these tests: every session is active, nobody has staff permissions
+mock.module('@/services/sessionService', () => ({
+  isSessionActive: async () => true,
+}));
+mock.module('@/services/apiKeyService', () => ({
+  authenticateApiKey: async () => null,
+}));
+mock.module('@/services/permissionService', () => ({
+  getUserPermissions: async () => [],
+}));
+
+const { getAuthenticatedUser } = await import('@/lib/authorization');
+
+const customer: JWTPayload = {
+  userId: 'user-1',
+  email: 'customer@example.com',
+  role: UserRole.CUSTOMER,
+  sessionId: 'session-1',
+};
+
+/**
+ * Build the identity headers middleware would set for a payload
+ */
+function identityHeaders(payload: JWTPayload, issuedAt: number = Date.now()): Record<string, string> {
+  return {
+    [IDENTITY_HEADERS.userId]: payload.userId,
+    [IDENTITY_HEADERS.email]: payload.email,
+    [IDENTITY_HEADERS.role]: payload.role,
+    [IDENTITY_HEADERS.sessionId]: payload.sessionId,
+    [IDENTITY_HEADERS.issuedAt]: String(issuedAt),
+    [IDENTITY_HEADERS.signature]: signIdentity(payload, issuedAt),
+  };
+}
+
+function buildRequest(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/orders', { headers });
+}
+
+describe('getAuthenticatedUser with identity headers', () => {
+  test('accepts headers signed by middleware', async () => {
+    const user = await getAuthenticatedUser(buildRequest(identityHeaders(customer)));
+
+    expect(user).toMatchObject({ ...customer, permissions: [] });
+  });
+
+  test('rejects forged headers', async () => {
+    const headers = identityHeaders(customer);
+
+    // Escalated role under the customer's signature
+    expect(
+      await getAuthenticatedUser(buildRequest({ ...headers, [IDENTITY_HEADERS.role]: UserRole.ADMIN }))
+    ).toBeNull();
+
+    // Another user's ID under the customer's signature
+    expect(
+      await getAuthenticatedUser(buildRequest({ ...headers, [IDENTITY_HEADERS.userId]: 'user-2' }))
+    ).toBeNull();
+
+    // Signed with the wrong secret
+    expect(
+      await getAuthenticatedUser(buildRequest({ ...headers, [IDENTITY_HEADERS.signature]: 'ab'.repeat(32) }))
+    ).toBeNull();
+
+    // Issued-at moved forward to extend a captured signature
+    expect(
+      await getAuthenticatedUser(buildRequest({ ...headers, [IDENTITY_HEADERS.issuedAt]: String(Date.now() + 1) }))
+    ).toBeNull();
+  });
+
+  test('rejects partial headers', async () => {
+    const headers = identityHeaders(customer);
+
+    for (const name of Object.values(IDENTITY_HEADERS)) {
+      const partial = { ...headers };
+      delete partial[name];
+
+      expect(await getAuthenticatedUser(buildRequest(partial))).toBeNull();
+    }
+  });
+
+  test('rejects unsigned headers', async () => {
+    const unsigned = identityHeaders(customer);
+    delete unsigned[IDENTITY_HEADERS.signature];
+    delete unsigned[IDENTITY_HEADERS.issuedAt];
+
+    expect(await getAuthenticatedUser(buildRequest(unsigned))).toBeNull();
+  });
+
+  test('rejects stale signatures', async () => {
+    const issuedAt = Date.now() - 5 * 60 * 1000;
+
+    expect(await getAuthenticatedUser(buildRequest(identityHeaders(customer, issuedAt)))).toBeNull();
+  });
+
+  test('does not fall back to the bearer token when identity headers are invalid', async () => {
+    const headers = identityHeaders(customer);
+    delete headers[IDENTITY_HEADERS.signature];
+
+    const request = buildRequest({ ...headers, authorization: `Bearer ${await generateToken(customer)}` });
+
+    expect(await getAuthenticatedUser(request)).toBeNull();
+  });
+});
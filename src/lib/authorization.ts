@@ -1,33 +1,114 @@
 // Authorization Utilities for Bookstore Management System
 import { UserRole } from '@prisma/client';
-import { NextRequest } from 'next/server';
-import { verifyToken, extractTokenFromHeader } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  verifyToken,
+  extractTokenFromHeader,
+  extractApiKeyFromHeader,
+  verifyIdentitySignature,
+  IDENTITY_HEADERS,
+} from '@/lib/auth';
+import { isSessionActive } from '@/services/sessionService';
+import { authenticateApiKey } from '@/services/apiKeyService';
+import { getUserPermissions } from '@/services/permissionService';
+import { ApiKeyScope, PermissionKey } from '@/types/api';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['books:read', 'books:write', 'orders:read', 'orders:write'];
+
+export const PERMISSIONS: PermissionKey[] = [
+  'books:create',
+  'books:update',
+  'books:update-stock',
+  'books:delete',
+  'books:pricing',
+  'orders:read-all',
+  'orders:update-status',
+  'orders:cancel',
+  'orders:refund',
+  'orders:returns',
+];
 
 export interface AuthenticatedUser {
   userId: string;
   email: string;
   role: UserRole;
+  permissions: PermissionKey[]; // ADMIN: all; otherwise granted by staff roles
+  sessionId?: string;
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[]; // Only set for API key callers
+}
+
+type Identity = Omit<AuthenticatedUser, 'permissions'>;
+
+export interface AuthenticationOptions {
+  allowApiKey?: boolean; // Accept API keys; the route must then check hasScope
 }
 
 /**
  * Extract and verify authenticated user from request
+ * API keys are refused unless the route opts in, so account and security routes
+ * (profile, password, 2FA, sessions, user management) can never be called with one.
  */
-export async function getAuthenticatedUser(request: NextRequest): Promise<AuthenticatedUser | null> {
-  // Check for custom headers first (set by middleware if it exists)
-  const userId = request.headers.get('x-user-id');
-  const email = request.headers.get('x-user-email');
-  const role = request.headers.get('x-user-role');
-
-  if (userId && email && role) {
-    return {
-      userId,
-      email,
-      role: role as UserRole,
-    };
+export async function getAuthenticatedUser(
+  request: NextRequest,
+  options: AuthenticationOptions = {}
+): Promise<AuthenticatedUser | null> {
+  const identity = await resolveIdentity(request);
+
+  if (!identity) {
+    return null;
+  }
+
+  if (identity.apiKeyId && !options.allowApiKey) {
+    return null;
+  }
+
+  const permissions = identity.role === UserRole.ADMIN
+    ? PERMISSIONS
+    : await getUserPermissions(identity.userId);
+
+  return { ...identity, permissions };
+}
+
+/**
+ * Resolve who is calling from signed identity headers, an API key or a bearer JWT
+ */
+async function resolveIdentity(request: NextRequest): Promise<Identity | null> {
+  // Check for identity headers first (verified and signed by middleware)
+  const userId = request.headers.get(IDENTITY_HEADERS.userId);
+  const email = request.headers.get(IDENTITY_HEADERS.email);
+  const role = request.headers.get(IDENTITY_HEADERS.role);
+  const sessionId = request.headers.get(IDENTITY_HEADERS.sessionId);
+  const issuedAt = request.headers.get(IDENTITY_HEADERS.issuedAt);
+  const signature = request.headers.get(IDENTITY_HEADERS.signature);
+
+  if (userId || email || role || sessionId || issuedAt || signature) {
+    // Partial or unsigned identity headers were not produced by middleware
+    if (!userId || !email || !role || !sessionId || !issuedAt || !signature || !/^\d+$/.test(issuedAt)) {
+      return null;
+    }
+
+    const identity = { userId, email, role: role as UserRole, sessionId };
+    if (!verifyIdentitySignature(identity, Number(issuedAt), signature)) {
+      return null;
+    }
+
+    if (!(await isSessionActive(sessionId, userId))) {
+      return null;
+    }
+
+    return identity;
   }
 
   // Otherwise, verify from Authorization header
   const authHeader = request.headers.get('authorization');
+
+  // API keys: "Authorization: ApiKey <key>"
+  const apiKey = extractApiKeyFromHeader(authHeader);
+  if (apiKey) {
+    return authenticateApiKey(apiKey);
+  }
+
   const token = extractTokenFromHeader(authHeader);
 
   if (!token) {
@@ -36,7 +117,12 @@ export async function getAuthenticatedUser(request: NextRequest): Promise<Authen
 
   const payload = await verifyToken(token);
 
-  if (!payload) {
+  if (!payload || !payload.sessionId) {
+    return null;
+  }
+
+  // Reject access tokens whose session has been revoked (logout, reuse detection)
+  if (!(await isSessionActive(payload.sessionId, payload.userId))) {
     return null;
   }
 
@@ -44,6 +130,7 @@ export async function getAuthenticatedUser(request: NextRequest): Promise<Authen
     userId: payload.userId,
     email: payload.email,
     role: payload.role,
+    sessionId: payload.sessionId,
   };
 }
 
@@ -73,6 +160,40 @@ export function requireAdmin(user: AuthenticatedUser): void {
   }
 }
 
+/**
+ * Return an error response unless the caller is an admin using a session
+ * Pass the result of getAuthenticatedUser without allowApiKey, so API keys get 401.
+ */
+export function checkAdminAccess(user: AuthenticatedUser | null, path: string): NextResponse | null {
+  if (!user) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 401,
+        error: 'Unauthorized',
+        message: 'Authentication required',
+        path,
+      },
+      { status: 401 }
+    );
+  }
+
+  if (!isAdmin(user)) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 403,
+        error: 'Forbidden',
+        message: 'Admin access required',
+        path,
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
 /**
  * Require resource ownership or admin role
  */
@@ -84,3 +205,35 @@ export function requireOwnershipOrAdmin(
     throw new Error('Forbidden: You do not have permission to access this resource');
   }
 }
+
+/**
+ * Check if user may use a scope (session users are limited only by their role)
+ */
+export function hasScope(user: AuthenticatedUser, scope: ApiKeyScope): boolean {
+  return !user.scopes || user.scopes.includes(scope);
+}
+
+/**
+ * Require an API key scope, throw error if missing
+ */
+export function requireScope(user: AuthenticatedUser, scope: ApiKeyScope): void {
+  if (!hasScope(user, scope)) {
+    throw new Error(`Forbidden: API key is missing scope ${scope}`);
+  }
+}
+
+/**
+ * Check if user holds a permission
+ */
+export function hasPermission(user: AuthenticatedUser, permission: PermissionKey): boolean {
+  return user.permissions.includes(permission);
+}
+
+/**
+ * Require a permission, throw error if missing
+ */
+export function requirePermission(user: AuthenticatedUser, permission: PermissionKey): void {
+  if (!hasPermission(user, permission)) {
+    throw new Error(`Forbidden: Missing permission ${permission}`);
+  }
+}
@@ -0,0 +1,121 @@
+// Idempotency-Key Handling for Bookstore Management System
+//
+// Wraps a route handler so a client can safely retry a request after a timeout:
+// the first response is stored under the caller and key, replayed for retries
+// with the same body, and a different body with the same key is rejected.
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/authorization';
+import {
+  hashIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  abandonIdempotentRequest,
+} from '@/services/idempotencyService';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on responses that were replayed from a stored response
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Run a route handler at most once per Idempotency-Key
+ * Requests without the header, or without an authenticated caller, run as usual.
+ * Server errors (5xx) are not stored, so the request can be retried with the same key.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  handler: (request: NextRequest) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return handler(request);
+  }
+
+  const path = request.nextUrl.pathname;
+
+  if (!key.trim() || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 400,
+        error: 'Bad Request',
+        message: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        path,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Keys belong to the caller; the handler rejects unauthenticated requests itself
+  const user = await getAuthenticatedUser(request, { allowApiKey: true });
+  if (!user) {
+    return handler(request);
+  }
+
+  // Hash the raw body; the handler still reads it from the original request
+  const body = await request.clone().text();
+  const requestHash = hashIdempotentRequest(request.method, path, body);
+
+  let storedResponse;
+  try {
+    storedResponse = await beginIdempotentRequest(user.userId, key, requestHash);
+  } catch (error: any) {
+    const message = error.message || 'Failed to check idempotency key';
+
+    if (message.includes('Idempotency key')) {
+      return NextResponse.json(
+        {
+          timestamp: new Date().toISOString(),
+          status: 409,
+          error: 'Conflict',
+          message,
+          path,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error checking idempotency key:', error);
+    return NextResponse.json(
+      {
+        timestamp: new Date().toISOString(),
+        status: 500,
+        error: 'Internal Server Error',
+        message,
+        path,
+      },
+      { status: 500 }
+    );
+  }
+
+  if (storedResponse) {
+    return new NextResponse(storedResponse.body, {
+      status: storedResponse.status,
+      headers: {
+        'Content-Type': 'application/json',
+        [IDEMPOTENT_REPLAYED_HEADER]: 'true',
+      },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler(request);
+  } catch (error) {
+    await abandonIdempotentRequest(user.userId, key);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await abandonIdempotentRequest(user.userId, key);
+  } else {
+    await completeIdempotentRequest(user.userId, key, {
+      status: response.status,
+      body: await response.clone().text(),
+    });
+  }
+
+  return response;
+}
@@ -0,0 +1,76 @@
+// Mailer Utilities for Bookstore Management System
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Mail configuration. The console and file transports expose reset and verification
+// tokens to anyone reading the logs or disk, so production never falls back to them.
+const MAIL_TRANSPORT =
+  process.env.MAIL_TRANSPORT || (process.env.NODE_ENV !== 'production' ? 'console' : undefined); // 'console' | 'file'
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox');
+
+/**
+ * Mailer that prints messages to the server log
+ */
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Mailer that writes each message as a JSON file into an outbox directory
+ */
+export function createFileMailer(outboxDir: string = MAIL_OUTBOX_DIR): Mailer {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await fs.mkdir(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      await fs.writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+let activeMailer: Mailer | null = null;
+
+/**
+ * Get the configured mailer (MAIL_TRANSPORT=console|file)
+ */
+export function getMailer(): Mailer {
+  if (!activeMailer) {
+    if (!MAIL_TRANSPORT) {
+      throw new Error('No mail transport configured: set MAIL_TRANSPORT or call setMailer()');
+    }
+
+    activeMailer = MAIL_TRANSPORT === 'file' ? createFileMailer() : createConsoleMailer();
+  }
+  return activeMailer;
+}
+
+/**
+ * Fail fast at startup when mail cannot be sent (production without MAIL_TRANSPORT)
+ */
+export function assertMailerConfigured(): void {
+  getMailer();
+}
+
+/**
+ * Replace the active mailer (e.g. with an SMTP or provider-backed implementation)
+ */
+export function setMailer(mailer: Mailer): void {
+  activeMailer = mailer;
+}
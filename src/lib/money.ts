@@ -0,0 +1,59 @@
+// Money Utilities for Bookstore Management System
+//
+// Amounts are stored as integer minor units (cents) next to a currency code,
+// so totals never pick up floating point errors. The JSON API exposes them as
+// decimal strings (e.g. "12.99").
+
+// Currency the catalog is priced in and orders are placed in
+export const DEFAULT_CURRENCY = process.env.STORE_CURRENCY || 'USD';
+
+// ISO 4217 currency code
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+// Digits after the decimal point for every supported currency
+const MINOR_UNIT_DIGITS = 2;
+
+// Non-negative decimal amount with at most MINOR_UNIT_DIGITS decimals
+const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+/**
+ * Parse a decimal amount ("12.99" or 12.99) into minor units; null if invalid
+ */
+export function toMinorUnits(amount: string | number): number | null {
+  const value = String(amount).trim();
+
+  if (!DECIMAL_AMOUNT_PATTERN.test(value)) {
+    return null;
+  }
+
+  const [whole, fraction = ''] = value.split('.');
+  const minorUnits = parseInt(whole, 10) * 10 ** MINOR_UNIT_DIGITS + parseInt(fraction.padEnd(MINOR_UNIT_DIGITS, '0'), 10);
+
+  return Number.isSafeInteger(minorUnits) ? minorUnits : null;
+}
+
+/**
+ * Format minor units as a decimal string (1299 -> "12.99")
+ */
+export function formatMinorUnits(minorUnits: number): string {
+  const sign = minorUnits < 0 ? '-' : '';
+  const absolute = Math.abs(minorUnits);
+  const divisor = 10 ** MINOR_UNIT_DIGITS;
+  const fraction = String(absolute % divisor).padStart(MINOR_UNIT_DIGITS, '0');
+
+  return `${sign}${Math.floor(absolute / divisor)}.${fraction}`;
+}
+
+/**
+ * Convert minor units with an exchange rate, rounding to the nearest minor unit
+ */
+export function convertMinorUnits(minorUnits: number, rate: number): number {
+  return Math.round(minorUnits * rate);
+}
+
+/**
+ * Check that a value is a three-letter ISO 4217 currency code (e.g. "EUR")
+ */
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+}
@@ -0,0 +1,156 @@
+// Payment Provider Utilities for Bookstore Management System
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentStatus } from '@prisma/client';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  CancelPaymentRequest,
+  CancelPaymentResponse,
+} from '@/types/api';
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: PaymentRequest): Promise<PaymentResponse>;
+  refund(request: RefundRequest): Promise<RefundResponse>;
+  cancel(request: CancelPaymentRequest): Promise<CancelPaymentResponse>;
+}
+
+export type MockPaymentOutcome = 'succeed' | 'fail' | 'async';
+export type MockRefundOutcome = 'succeed' | 'fail';
+
+// Payment configuration
+const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || 'mock';
+const MOCK_PAYMENT_OUTCOME = (process.env.MOCK_PAYMENT_OUTCOME || 'succeed') as MockPaymentOutcome;
+const MOCK_REFUND_OUTCOME = (process.env.MOCK_REFUND_OUTCOME || 'succeed') as MockRefundOutcome;
+
+// Webhook configuration
+const PAYMENT_WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET || 'your-webhook-secret-change-in-production';
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60; // Reject signatures older than 5 minutes (replay protection)
+
+// Header carrying "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+// Test payment methods that force an outcome regardless of MOCK_PAYMENT_OUTCOME
+const MOCK_PAYMENT_METHODS: Record<string, MockPaymentOutcome> = {
+  mock_card_success: 'succeed',
+  mock_card_declined: 'fail',
+  mock_card_async: 'async',
+};
+
+/**
+ * Local payment provider with a deterministic outcome (no network calls)
+ */
+export function createMockPaymentProvider(
+  defaultOutcome: MockPaymentOutcome = MOCK_PAYMENT_OUTCOME,
+  refundOutcome: MockRefundOutcome = MOCK_REFUND_OUTCOME
+): PaymentProvider {
+  return {
+    name: 'mock',
+    async charge(request: PaymentRequest): Promise<PaymentResponse> {
+      const outcome = MOCK_PAYMENT_METHODS[request.paymentMethod] || defaultOutcome;
+      const paymentId = `mock_${randomUUID()}`;
+
+      if (outcome === 'fail') {
+        return {
+          success: false,
+          paymentId,
+          status: PaymentStatus.FAILED,
+          message: 'Card declined',
+        };
+      }
+
+      return {
+        success: true,
+        paymentId,
+        status: outcome === 'async' ? PaymentStatus.PENDING : PaymentStatus.PAID,
+      };
+    },
+    async refund(request: RefundRequest): Promise<RefundResponse> {
+      if (refundOutcome === 'fail') {
+        return { success: false, message: 'Refund rejected by provider' };
+      }
+
+      return { success: true, refundId: `mock_re_${randomUUID()}` };
+    },
+    async cancel(request: CancelPaymentRequest): Promise<CancelPaymentResponse> {
+      // Mock payments awaiting confirmation can always be voided
+      return { success: true };
+    },
+  };
+}
+
+let activePaymentProvider: PaymentProvider | null = null;
+
+/**
+ * Get the configured payment provider (PAYMENT_PROVIDER=mock)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!activePaymentProvider) {
+    if (PAYMENT_PROVIDER !== 'mock') {
+      throw new Error(`Unknown payment provider: ${PAYMENT_PROVIDER}`);
+    }
+    activePaymentProvider = createMockPaymentProvider();
+  }
+  return activePaymentProvider;
+}
+
+/**
+ * Replace the active payment provider (e.g. with a Stripe or PayPal implementation)
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  activePaymentProvider = provider;
+}
+
+/**
+ * Compute the hex HMAC of a webhook body for a timestamp
+ */
+function computeWebhookSignature(payload: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Sign a raw webhook body, returning the value for the signature header
+ */
+export function signWebhookPayload(
+  payload: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  secret: string = PAYMENT_WEBHOOK_SECRET
+): string {
+  return `t=${timestamp},v1=${computeWebhookSignature(payload, timestamp, secret)}`;
+}
+
+/**
+ * Verify a webhook signature header against the raw body in constant time
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | null,
+  now: number = Date.now()
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = parseInt(parts.t);
+
+  if (!timestamp || !parts.v1) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(payload, timestamp, PAYMENT_WEBHOOK_SECRET), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
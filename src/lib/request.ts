@@ -0,0 +1,20 @@
+// Request Utilities for Bookstore Management System
+import { NextRequest } from 'next/server';
+
+// Number of reverse proxies in front of the app that append to X-Forwarded-For.
+// Hops to the left of the ones they added are supplied by the client and can be forged.
+const TRUSTED_PROXY_COUNT = parseInt(process.env.TRUSTED_PROXY_COUNT || '1');
+
+/**
+ * Best-effort client IP address (the X-Forwarded-For hop added by the outermost
+ * trusted proxy, then X-Real-IP)
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor && TRUSTED_PROXY_COUNT > 0) {
+    const hops = forwardedFor.split(',').map((hop) => hop.trim());
+    return hops[Math.max(hops.length - TRUSTED_PROXY_COUNT, 0)];
+  }
+
+  return request.headers.get('x-real-ip') || 'unknown';
+}
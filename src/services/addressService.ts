@@ -0,0 +1,275 @@
+// Address Service - Business Logic for Customer Address Books
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { Address, ShippingAddress, CreateAddressDTO, UpdateAddressDTO } from '@/types/api';
+
+// ISO 3166-1 alpha-2
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+const MAX_FIELD_LENGTH = 200;
+
+/**
+ * Transform Prisma Address entity to API Address type
+ */
+function transformAddress(prismaAddress: any): Address {
+  return {
+    id: prismaAddress.id,
+    userId: prismaAddress.userId,
+    label: prismaAddress.label,
+    recipientName: prismaAddress.recipientName,
+    line1: prismaAddress.line1,
+    line2: prismaAddress.line2,
+    city: prismaAddress.city,
+    region: prismaAddress.region,
+    postalCode: prismaAddress.postalCode,
+    country: prismaAddress.country,
+    phone: prismaAddress.phone,
+    isDefault: prismaAddress.isDefault,
+    createdAt: prismaAddress.createdAt,
+    updatedAt: prismaAddress.updatedAt,
+  };
+}
+
+/**
+ * Copy just the destination fields of an address (the order snapshot)
+ */
+function toShippingAddress(address: ShippingAddress): ShippingAddress {
+  return {
+    recipientName: address.recipientName,
+    line1: address.line1,
+    line2: address.line2 ?? null,
+    city: address.city,
+    region: address.region ?? null,
+    postalCode: address.postalCode,
+    country: address.country,
+    phone: address.phone ?? null,
+  };
+}
+
+/**
+ * Trim text fields and upper-case the country and region codes; blank optional fields become null
+ */
+function normalizeAddress<T extends Partial<CreateAddressDTO>>(address: T): T {
+  const normalized: any = { ...address };
+
+  for (const field of ['label', 'recipientName', 'line1', 'line2', 'city', 'region', 'postalCode', 'country', 'phone']) {
+    if (typeof normalized[field] === 'string') {
+      normalized[field] = normalized[field].trim();
+    }
+  }
+
+  for (const field of ['label', 'line2', 'region', 'phone']) {
+    if (normalized[field] === '') {
+      normalized[field] = null;
+    }
+  }
+
+  if (typeof normalized.country === 'string') normalized.country = normalized.country.toUpperCase();
+  if (typeof normalized.region === 'string') normalized.region = normalized.region.toUpperCase();
+
+  return normalized;
+}
+
+/**
+ * Check that an address has every required field and a valid country code
+ */
+function validateAddress(address: Partial<CreateAddressDTO>): void {
+  for (const field of ['recipientName', 'line1', 'city', 'postalCode', 'country'] as const) {
+    if (typeof address[field] !== 'string' || !address[field]) {
+      throw new Error(`Invalid address: ${field} is required`);
+    }
+  }
+
+  for (const field of ['label', 'recipientName', 'line1', 'line2', 'city', 'region', 'postalCode', 'country', 'phone'] as const) {
+    const value = address[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH)) {
+      throw new Error(`Invalid address: ${field} must be a string of at most ${MAX_FIELD_LENGTH} characters`);
+    }
+  }
+
+  if (!COUNTRY_CODE_PATTERN.test(address.country!)) {
+    throw new Error('Invalid address: country must be a two-letter ISO 3166 code');
+  }
+}
+
+/**
+ * List a user's addresses, default first
+ */
+export async function getAddresses(userId: string): Promise<Address[]> {
+  const prismaAddresses = await db.address.findMany({
+    where: { userId },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  return prismaAddresses.map(transformAddress);
+}
+
+/**
+ * Get one of a user's addresses
+ */
+export async function getAddressById(userId: string, id: string): Promise<Address | null> {
+  const prismaAddress = await db.address.findFirst({
+    where: { id, userId },
+  });
+
+  if (!prismaAddress) {
+    return null;
+  }
+
+  return transformAddress(prismaAddress);
+}
+
+/**
+ * Add an address to a user's address book
+ * The first address becomes the default
+ */
+export async function createAddress(userId: string, dto: CreateAddressDTO): Promise<Address> {
+  const address = normalizeAddress(dto);
+  validateAddress(address);
+
+  const prismaAddress = await db.$transaction(async (tx) => {
+    const addressCount = await tx.address.count({
+      where: { userId },
+    });
+    const isDefault = address.isDefault === true || addressCount === 0;
+
+    // Only one default address per user
+    if (isDefault) {
+      await tx.address.updateMany({
+        where: { userId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.address.create({
+      data: {
+        userId,
+        label: address.label ?? null,
+        ...toShippingAddress(address),
+        isDefault,
+      },
+    });
+  });
+
+  return transformAddress(prismaAddress);
+}
+
+/**
+ * Update one of a user's addresses
+ * Orders keep the snapshot taken when they were placed
+ */
+export async function updateAddress(userId: string, id: string, dto: UpdateAddressDTO): Promise<Address> {
+  const existingAddress = await db.address.findFirst({
+    where: { id, userId },
+  });
+
+  if (!existingAddress) {
+    throw new Error('Address not found');
+  }
+
+  const changes = normalizeAddress(dto);
+
+  // Validate the address as it will be after the update
+  validateAddress({ ...transformAddress(existingAddress), ...changes });
+
+  const updateData: Prisma.AddressUpdateInput = {};
+
+  if (changes.label !== undefined) updateData.label = changes.label;
+  if (changes.recipientName !== undefined) updateData.recipientName = changes.recipientName;
+  if (changes.line1 !== undefined) updateData.line1 = changes.line1;
+  if (changes.line2 !== undefined) updateData.line2 = changes.line2;
+  if (changes.city !== undefined) updateData.city = changes.city;
+  if (changes.region !== undefined) updateData.region = changes.region;
+  if (changes.postalCode !== undefined) updateData.postalCode = changes.postalCode;
+  if (changes.country !== undefined) updateData.country = changes.country;
+  if (changes.phone !== undefined) updateData.phone = changes.phone;
+  if (changes.isDefault !== undefined) updateData.isDefault = changes.isDefault;
+
+  const prismaAddress = await db.$transaction(async (tx) => {
+    // Only one default address per user
+    if (changes.isDefault === true) {
+      await tx.address.updateMany({
+        where: { userId, isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.address.update({
+      where: { id },
+      data: updateData,
+    });
+  });
+
+  return transformAddress(prismaAddress);
+}
+
+/**
+ * Delete one of a user's addresses
+ * If it was the default, the most recently added remaining address becomes the default
+ */
+export async function deleteAddress(userId: string, id: string): Promise<void> {
+  const existingAddress = await db.address.findFirst({
+    where: { id, userId },
+  });
+
+  if (!existingAddress) {
+    throw new Error('Address not found');
+  }
+
+  await db.$transaction(async (tx) => {
+    await tx.address.delete({
+      where: { id },
+    });
+
+    if (existingAddress.isDefault) {
+      const nextDefault = await tx.address.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (nextDefault) {
+        await tx.address.update({
+          where: { id: nextDefault.id },
+          data: { isDefault: true },
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Work out where an order ships to: an address from the customer's address book,
+ * an inline address, or else their default address
+ */
+export async function resolveShippingAddress(
+  userId: string,
+  dto: { addressId?: string; shippingAddress?: ShippingAddress }
+): Promise<ShippingAddress> {
+  if (dto.addressId) {
+    const address = await db.address.findFirst({
+      where: { id: dto.addressId, userId },
+    });
+
+    if (!address) {
+      throw new Error('Address not found');
+    }
+
+    return toShippingAddress(address);
+  }
+
+  if (dto.shippingAddress) {
+    const address = normalizeAddress(dto.shippingAddress);
+    validateAddress(address);
+    return toShippingAddress(address);
+  }
+
+  const defaultAddress = await db.address.findFirst({
+    where: { userId, isDefault: true },
+  });
+
+  if (!defaultAddress) {
+    throw new Error('A shipping address is required: send addressId or shippingAddress, or set a default address');
+  }
+
+  return toShippingAddress(defaultAddress);
+}
@@ -0,0 +1,170 @@
+// API Key Service - Business Logic for Integration Credentials
+import { UserRole } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ApiKey, ApiKeyScope, CreateApiKeyDTO, UpdateApiKeyDTO, CreateApiKeyResponse } from '@/types/api';
+import { generateOpaqueToken, hashToken } from '@/lib/auth';
+
+// Keys look like "bk_<random>"; the prefix identifies a key without revealing it
+const API_KEY_PREFIX = 'bk_';
+const API_KEY_DISPLAY_LENGTH = 11;
+
+export interface ApiKeyIdentity {
+  apiKeyId: string;
+  userId: string;
+  email: string;
+  role: UserRole;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Parse scopes JSON string to array
+ */
+function parseScopes(scopesStr: string): ApiKeyScope[] {
+  try {
+    return JSON.parse(scopesStr);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Transform Prisma ApiKey entity to API ApiKey type (excluding hash)
+ */
+function transformApiKey(prismaApiKey: any): ApiKey {
+  return {
+    id: prismaApiKey.id,
+    name: prismaApiKey.name,
+    prefix: prismaApiKey.prefix,
+    scopes: parseScopes(prismaApiKey.scopes),
+    expiresAt: prismaApiKey.expiresAt,
+    lastUsedAt: prismaApiKey.lastUsedAt,
+    createdAt: prismaApiKey.createdAt,
+    updatedAt: prismaApiKey.updatedAt,
+  };
+}
+
+/**
+ * List API keys owned by a user
+ */
+export async function getApiKeys(userId: string): Promise<ApiKey[]> {
+  const prismaApiKeys = await db.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return prismaApiKeys.map(transformApiKey);
+}
+
+/**
+ * Get a single API key owned by a user
+ */
+export async function getApiKeyById(userId: string, id: string): Promise<ApiKey | null> {
+  const prismaApiKey = await db.apiKey.findFirst({
+    where: { id, userId },
+  });
+
+  if (!prismaApiKey) {
+    return null;
+  }
+
+  return transformApiKey(prismaApiKey);
+}
+
+/**
+ * Create a new API key; the full key is only returned here
+ */
+export async function createApiKey(userId: string, dto: CreateApiKeyDTO): Promise<CreateApiKeyResponse> {
+  const key = `${API_KEY_PREFIX}${generateOpaqueToken()}`;
+
+  const prismaApiKey = await db.apiKey.create({
+    data: {
+      userId,
+      name: dto.name,
+      prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+      keyHash: hashToken(key),
+      scopes: JSON.stringify(dto.scopes),
+      expiresAt: dto.expiresAt,
+    },
+  });
+
+  return {
+    ...transformApiKey(prismaApiKey),
+    key,
+  };
+}
+
+/**
+ * Update an API key's name, scopes or expiry
+ */
+export async function updateApiKey(userId: string, id: string, dto: UpdateApiKeyDTO): Promise<ApiKey> {
+  const existingApiKey = await db.apiKey.findFirst({
+    where: { id, userId },
+  });
+
+  if (!existingApiKey) {
+    throw new Error('API key not found');
+  }
+
+  const prismaApiKey = await db.apiKey.update({
+    where: { id },
+    data: {
+      ...(dto.name !== undefined ? { name: dto.name } : {}),
+      ...(dto.scopes !== undefined ? { scopes: JSON.stringify(dto.scopes) } : {}),
+      ...(dto.expiresAt !== undefined ? { expiresAt: dto.expiresAt } : {}),
+    },
+  });
+
+  return transformApiKey(prismaApiKey);
+}
+
+/**
+ * Delete (revoke) an API key
+ */
+export async function deleteApiKey(userId: string, id: string): Promise<void> {
+  const existingApiKey = await db.apiKey.findFirst({
+    where: { id, userId },
+  });
+
+  if (!existingApiKey) {
+    throw new Error('API key not found');
+  }
+
+  await db.apiKey.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Resolve a raw API key to its owner and scopes, recording its use
+ */
+export async function authenticateApiKey(rawKey: string): Promise<ApiKeyIdentity | null> {
+  const prismaApiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashToken(rawKey) },
+    include: { user: true },
+  });
+
+  if (!prismaApiKey) {
+    return null;
+  }
+
+  if (prismaApiKey.expiresAt && prismaApiKey.expiresAt <= new Date()) {
+    return null;
+  }
+
+  if (prismaApiKey.user.disabledAt) {
+    return null;
+  }
+
+  await db.apiKey.update({
+    where: { id: prismaApiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return {
+    apiKeyId: prismaApiKey.id,
+    userId: prismaApiKey.user.id,
+    email: prismaApiKey.user.email,
+    role: prismaApiKey.user.role,
+    scopes: parseScopes(prismaApiKey.scopes),
+  };
+}
@@ -1,7 +1,35 @@
 // Auth Service - Business Logic for Authentication Operations
 import { db } from '@/lib/db';
-import { User, CreateUserDTO, LoginDTO, AuthResponse } from '@/types/api';
-import { generateToken, hashPassword, comparePassword, getTokenExpiresIn } from '@/lib/auth';
+import {
+  User,
+  CreateUserDTO,
+  LoginDTO,
+  AuthResponse,
+  ForgotPasswordDTO,
+  ResetPasswordDTO,
+  UpdateProfileDTO,
+  ChangePasswordDTO,
+  TwoFactorChallengeResponse,
+  TwoFactorLoginDTO,
+} from '@/types/api';
+import {
+  hashPassword,
+  comparePassword,
+  generateOpaqueToken,
+  hashToken,
+  generateChallengeToken,
+  verifyChallengeToken,
+  getChallengeExpiresIn,
+} from '@/lib/auth';
+import { getMailer } from '@/lib/mailer';
+import { createSession, revokeAllSessions } from './sessionService';
+import { verifySecondFactor } from './twoFactorService';
+
+// Password reset tokens are valid for 1 hour
+const PASSWORD_RESET_EXPIRES_IN_MS = 60 * 60 * 1000;
+
+// Email verification tokens are valid for 24 hours
+const EMAIL_VERIFICATION_EXPIRES_IN_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Transform Prisma User entity to API User type (excluding password)
@@ -11,6 +39,9 @@ function transformUser(prismaUser: any): User {
     id: prismaUser.id,
     name: prismaUser.name,
     email: prismaUser.email,
+    pendingEmail: prismaUser.pendingEmail,
+    emailVerifiedAt: prismaUser.emailVerifiedAt,
+    twoFactorEnabled: Boolean(prismaUser.totpEnabledAt),
     role: prismaUser.role,
     createdAt: prismaUser.createdAt,
     updatedAt: prismaUser.updatedAt,
@@ -45,25 +76,18 @@ export async function registerUser(dto: CreateUserDTO): Promise<AuthResponse> {
 
   const user = transformUser(prismaUser);
 
-  // Generate JWT token
-  const token = await generateToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
+  // Ask the user to confirm their address; orders are blocked until they do
+  await sendEmailVerification(user.id, user.name, user.email);
 
-  return {
-    token,
-    tokenType: 'Bearer',
-    expiresIn: getTokenExpiresIn(),
-    user,
-  };
+  // Start a session (access token + refresh token)
+  return createSession(user);
 }
 
 /**
- * Authenticate user and return token
+ * Authenticate user and return token.
+ * Users with 2FA enabled get a short-lived challenge token instead.
  */
-export async function loginUser(dto: LoginDTO): Promise<AuthResponse> {
+export async function loginUser(dto: LoginDTO): Promise<AuthResponse | TwoFactorChallengeResponse> {
   // Find user by email
   const prismaUser = await db.user.findUnique({
     where: { email: dto.email },
@@ -80,21 +104,61 @@ export async function loginUser(dto: LoginDTO): Promise<AuthResponse> {
     throw new Error('Invalid email or password');
   }
 
+  if (prismaUser.disabledAt) {
+    throw new Error('Account is disabled');
+  }
+
+  // Second step required: prove possession of the authenticator
+  if (prismaUser.totpEnabledAt) {
+    const challengeToken = await generateChallengeToken({
+      userId: prismaUser.id,
+      email: prismaUser.email,
+    });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: getChallengeExpiresIn(),
+    };
+  }
+
   const user = transformUser(prismaUser);
 
-  // Generate JWT token
-  const token = await generateToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
+  // Start a session (access token + refresh token)
+  return createSession(user);
+}
+
+/**
+ * Complete a 2FA login with a TOTP or recovery code
+ */
+export async function completeTwoFactorLogin(dto: TwoFactorLoginDTO): Promise<AuthResponse> {
+  const challenge = await verifyChallengeToken(dto.challengeToken);
+
+  if (!challenge) {
+    throw new Error('Invalid or expired challenge token');
+  }
+
+  await verifySecondFactor(challenge.userId, {
+    code: dto.code,
+    recoveryCode: dto.recoveryCode,
   });
 
-  return {
-    token,
-    tokenType: 'Bearer',
-    expiresIn: getTokenExpiresIn(),
-    user,
-  };
+  const prismaUser = await db.user.findUnique({
+    where: { id: challenge.userId },
+  });
+
+  if (!prismaUser) {
+    throw new Error('Invalid or expired challenge token');
+  }
+
+  if (prismaUser.disabledAt) {
+    throw new Error('Account is disabled');
+  }
+
+  const user = transformUser(prismaUser);
+
+  // Start a session (access token + refresh token)
+  return createSession(user);
 }
 
 /**
@@ -126,3 +190,269 @@ export async function getUserByEmail(email: string): Promise<User | null> {
 
   return transformUser(prismaUser);
 }
+
+/**
+ * Issue a password reset token and mail it to the user.
+ * Silently does nothing for unknown emails so accounts cannot be enumerated.
+ */
+export async function requestPasswordReset(dto: ForgotPasswordDTO): Promise<void> {
+  const prismaUser = await db.user.findUnique({
+    where: { email: dto.email },
+  });
+
+  if (!prismaUser) {
+    return;
+  }
+
+  const token = generateOpaqueToken();
+
+  await db.$transaction(async (tx) => {
+    // Only the most recently requested token stays usable
+    await tx.passwordResetToken.updateMany({
+      where: { userId: prismaUser.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await tx.passwordResetToken.create({
+      data: {
+        userId: prismaUser.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_EXPIRES_IN_MS),
+      },
+    });
+  });
+
+  await getMailer().send({
+    to: prismaUser.email,
+    subject: 'Reset your Bookstore password',
+    text:
+      `Hi ${prismaUser.name},\n\n` +
+      `Use the token below with POST /api/password/reset to choose a new password. ` +
+      `It expires in 1 hour and can only be used once.\n\n${token}\n\n` +
+      `If you did not request a password reset, you can ignore this message.`,
+  });
+}
+
+/**
+ * Reset a password with a reset token and revoke all of the user's sessions
+ */
+export async function resetPassword(dto: ResetPasswordDTO): Promise<void> {
+  const resetToken = await db.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(dto.token) },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    throw new Error('Invalid or expired reset token');
+  }
+
+  const hashedPassword = await hashPassword(dto.password);
+
+  await db.$transaction(async (tx) => {
+    // Consume the token; fails if it was used concurrently
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    // Invalidate any other outstanding reset tokens
+    await tx.passwordResetToken.updateMany({
+      where: { userId: resetToken.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { password: hashedPassword },
+    });
+  });
+
+  // Log the user out everywhere
+  await revokeAllSessions(resetToken.userId);
+}
+
+/**
+ * Issue an email verification token for an address and mail it there
+ */
+async function sendEmailVerification(userId: string, name: string, email: string): Promise<void> {
+  const token = generateOpaqueToken();
+
+  await db.$transaction(async (tx) => {
+    // Only the most recently issued token stays usable
+    await tx.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await tx.emailVerificationToken.create({
+      data: {
+        userId,
+        email,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_EXPIRES_IN_MS),
+      },
+    });
+  });
+
+  await getMailer().send({
+    to: email,
+    subject: 'Verify your Bookstore email address',
+    text:
+      `Hi ${name},\n\n` +
+      `Confirm this email address by opening GET /api/verify-email?token=${token}\n\n` +
+      `The link expires in 24 hours.`,
+  });
+}
+
+/**
+ * Update the current user's profile.
+ * A new email is stored as pending and only applied once verified.
+ */
+export async function updateProfile(userId: string, dto: UpdateProfileDTO): Promise<User> {
+  const existingUser = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!existingUser) {
+    throw new Error('User not found');
+  }
+
+  const emailChanged = dto.email !== undefined && dto.email !== existingUser.email;
+
+  // Check if new email is already registered
+  if (emailChanged) {
+    const userWithEmail = await db.user.findUnique({
+      where: { email: dto.email },
+    });
+
+    if (userWithEmail) {
+      throw new Error('Email already registered');
+    }
+  }
+
+  const prismaUser = await db.user.update({
+    where: { id: userId },
+    data: {
+      ...(dto.name !== undefined ? { name: dto.name } : {}),
+      // Re-submitting the current email cancels a pending change
+      ...(dto.email !== undefined ? { pendingEmail: emailChanged ? dto.email : null } : {}),
+    },
+  });
+
+  if (emailChanged) {
+    await sendEmailVerification(prismaUser.id, prismaUser.name, dto.email!);
+  }
+
+  return transformUser(prismaUser);
+}
+
+/**
+ * Change the current user's password after checking the current one.
+ * Every other session of the user is revoked.
+ */
+export async function changePassword(
+  userId: string,
+  dto: ChangePasswordDTO,
+  currentSessionId?: string
+): Promise<void> {
+  const prismaUser = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!prismaUser) {
+    throw new Error('User not found');
+  }
+
+  // Verify current password
+  const isPasswordValid = await comparePassword(dto.currentPassword, prismaUser.password);
+
+  if (!isPasswordValid) {
+    throw new Error('Current password is incorrect');
+  }
+
+  const hashedPassword = await hashPassword(dto.newPassword);
+
+  await db.user.update({
+    where: { id: userId },
+    data: { password: hashedPassword },
+  });
+
+  await revokeAllSessions(userId, currentSessionId);
+}
+
+/**
+ * Consume an email verification token and apply the verified address
+ */
+export async function verifyEmail(rawToken: string): Promise<User> {
+  const verificationToken = await db.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(rawToken) },
+    include: { user: true },
+  });
+
+  if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= new Date()) {
+    throw new Error('Invalid or expired verification token');
+  }
+
+  const { user } = verificationToken;
+
+  // The address may have been taken since the change was requested
+  if (verificationToken.email !== user.email) {
+    const userWithEmail = await db.user.findUnique({
+      where: { email: verificationToken.email },
+    });
+
+    if (userWithEmail) {
+      throw new Error('Email already registered');
+    }
+  }
+
+  const prismaUser = await db.$transaction(async (tx) => {
+    const { count } = await tx.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    return tx.user.update({
+      where: { id: user.id },
+      data: {
+        email: verificationToken.email,
+        pendingEmail: null,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  });
+
+  return transformUser(prismaUser);
+}
+
+/**
+ * Re-send the verification email for a pending email change or an
+ * unverified account
+ */
+export async function resendEmailVerification(userId: string): Promise<void> {
+  const prismaUser = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!prismaUser) {
+    throw new Error('User not found');
+  }
+
+  if (prismaUser.pendingEmail) {
+    await sendEmailVerification(prismaUser.id, prismaUser.name, prismaUser.pendingEmail);
+    return;
+  }
+
+  if (prismaUser.emailVerifiedAt) {
+    throw new Error('Email is already verified');
+  }
+
+  await sendEmailVerification(prismaUser.id, prismaUser.name, prismaUser.email);
+}
@@ -1,7 +1,10 @@
 // Book Service - Business Logic for Book Operations
 import { db } from '@/lib/db';
+import { DEFAULT_CURRENCY, toMinorUnits, formatMinorUnits, convertMinorUnits } from '@/lib/money';
 import { Book, CreateBookDTO, UpdateBookDTO, BookListQuery, PaginatedResponse } from '@/types/api';
 import { Prisma } from '@prisma/client';
+import { getExchangeRate } from './exchangeRateService';
+import { getReservedQuantity } from './reservationService';
 
 /**
  * Parse authors JSON string to array
@@ -22,18 +25,60 @@ function serializeAuthors(authors: string[]): string {
 }
 
 /**
- * Transform Prisma Book entity to API Book type
+ * Convert a validated decimal price to minor units
  */
-function transformBook(prismaBook: any): Book {
+function parsePrice(price: string | number): number {
+  const priceCents = toMinorUnits(price);
+
+  if (priceCents === null) {
+    throw new Error('Price must be a non-negative amount with at most 2 decimal places');
+  }
+
+  return priceCents;
+}
+
+/**
+ * Get a book's price in a currency (in minor units)
+ * Uses the book's override for that currency, otherwise converts its catalog price
+ * with `rate` (the exchange rate from the store currency)
+ */
+export function getBookPriceCents(prismaBook: any, currency: string, rate: number): number {
+  const override = prismaBook.prices?.find((price: any) => price.currency === currency);
+  if (override) {
+    return override.priceCents;
+  }
+
+  if (prismaBook.currency === currency) {
+    return prismaBook.priceCents;
+  }
+
+  if (prismaBook.currency !== DEFAULT_CURRENCY) {
+    throw new Error(`Book "${prismaBook.title}" has no ${currency} price`);
+  }
+
+  return convertMinorUnits(prismaBook.priceCents, rate);
+}
+
+/**
+ * Transform Prisma Book entity (with price overrides) to API Book type, priced in `currency`
+ */
+function transformBook(prismaBook: any, currency: string = DEFAULT_CURRENCY, rate: number = 1): Book {
   return {
     id: prismaBook.id,
     title: prismaBook.title,
     authors: parseAuthors(prismaBook.authors),
     genre: prismaBook.genre,
     isbn: prismaBook.isbn,
-    price: prismaBook.price,
+    price: formatMinorUnits(getBookPriceCents(prismaBook, currency, rate)),
+    currency,
+    prices: Object.fromEntries(
+      (prismaBook.prices || []).map((price: any) => [price.currency, formatMinorUnits(price.priceCents)])
+    ),
+    taxClass: prismaBook.taxClass,
     description: prismaBook.description,
     stockQuantity: prismaBook.stockQuantity,
+    damagedQuantity: prismaBook.damagedQuantity,
+    weightGrams: prismaBook.weightGrams,
     imageUrl: prismaBook.imageUrl,
     createdAt: prismaBook.createdAt,
     updatedAt: prismaBook.updatedAt,
@@ -49,9 +94,12 @@ export async function getBooks(query: BookListQuery): Promise<PaginatedResponse<
   const skip = (page - 1) * size;
   const sort = query.sort || 'createdAt';
   const sortOrder = sort.startsWith('-') ? 'desc' : 'asc';
-  const sortField = sort.replace(/^-/, '');
+  const sortKey = sort.replace(/^-/, '');
+  const sortField = sortKey === 'price' ? 'priceCents' : sortKey; // Sorts by catalog price, in minor units
   const searchQuery = query.q?.toLowerCase();
   const genreFilter = query.genre;
+  const currency = query.currency || DEFAULT_CURRENCY;
+  const rate = await getExchangeRate(currency);
 
   // Build where clause
   const where: Prisma.BookWhereInput = {};
@@ -82,9 +130,10 @@ export async function getBooks(query: BookListQuery): Promise<PaginatedResponse<
     skip,
     take: size,
     orderBy,
+    include: { prices: true },
   });
 
-  const data = prismaBooks.map(transformBook);
+  const data = prismaBooks.map((prismaBook) => transformBook(prismaBook, currency, rate));
 
   return {
     data,
@@ -100,18 +149,21 @@ export async function getBooks(query: BookListQuery): Promise<PaginatedResponse<
 }
 
 /**
- * Get a single book by ID
+ * Get a single book by ID, priced in `currency`
  */
-export async function getBookById(id: string): Promise<Book | null> {
+export async function getBookById(id: string, currency: string = DEFAULT_CURRENCY): Promise<Book | null> {
+  const rate = await getExchangeRate(currency);
+
   const prismaBook = await db.book.findUnique({
     where: { id },
+    include: { prices: true },
   });
 
   if (!prismaBook) {
     return null;
   }
 
-  return transformBook(prismaBook);
+  return transformBook(prismaBook, currency, rate);
 }
 
 /**
@@ -133,11 +185,21 @@ export async function createBook(dto: CreateBookDTO): Promise<Book> {
       authors: serializeAuthors(dto.authors),
       genre: dto.genre,
       isbn: dto.isbn,
-      price: dto.price,
+      priceCents: parsePrice(dto.price),
+      currency: DEFAULT_CURRENCY,
       description: dto.description,
       stockQuantity: dto.stockQuantity,
+      weightGrams: dto.weightGrams,
       imageUrl: dto.imageUrl,
+      taxClass: dto.taxClass,
+      prices: {
+        create: Object.entries(dto.prices || {}).map(([currency, price]) => ({
+          currency,
+          priceCents: parsePrice(price),
+        })),
+      },
     },
+    include: { prices: true },
   });
 
   return transformBook(prismaBook);
@@ -173,14 +235,34 @@ export async function updateBook(id: string, dto: UpdateBookDTO): Promise<Book>
   if (dto.authors !== undefined) updateData.authors = serializeAuthors(dto.authors);
   if (dto.genre !== undefined) updateData.genre = dto.genre;
   if (dto.isbn !== undefined) updateData.isbn = dto.isbn;
-  if (dto.price !== undefined) updateData.price = dto.price;
+  if (dto.price !== undefined) updateData.priceCents = parsePrice(dto.price);
   if (dto.description !== undefined) updateData.description = dto.description;
   if (dto.stockQuantity !== undefined) updateData.stockQuantity = dto.stockQuantity;
+  if (dto.weightGrams !== undefined) updateData.weightGrams = dto.weightGrams;
   if (dto.imageUrl !== undefined) updateData.imageUrl = dto.imageUrl;
+  if (dto.taxClass !== undefined) updateData.taxClass = dto.taxClass;
+
+  // Set or (with null) remove per-currency price overrides
+  if (dto.prices !== undefined) {
+    const overrides = Object.entries(dto.prices);
+    updateData.prices = {
+      deleteMany: overrides
+        .filter(([, price]) => price === null)
+        .map(([currency]) => ({ currency })),
+      upsert: overrides
+        .filter(([, price]) => price !== null)
+        .map(([currency, price]) => ({
+          where: { bookId_currency: { bookId: id, currency } },
+          create: { currency, priceCents: parsePrice(price!) },
+          update: { priceCents: parsePrice(price!) },
+        })),
+    };
+  }
 
   const prismaBook = await db.book.update({
     where: { id },
     data: updateData,
+    include: { prices: true },
   });
 
   return transformBook(prismaBook);
@@ -227,8 +309,10 @@ export async function getGenres(): Promise<string[]> {
 
 /**
  * Check stock availability for a book
+ * Units held by other customers' reservations are not available; pass `userId`
+ * so the customer's own reservation counts in their favour.
  */
-export async function checkStockAvailability(bookId: string, quantity: number): Promise<boolean> {
+export async function checkStockAvailability(bookId: string, quantity: number, userId?: string): Promise<boolean> {
   const book = await db.book.findUnique({
     where: { id: bookId },
     select: { stockQuantity: true },
@@ -238,7 +322,9 @@ export async function checkStockAvailability(bookId: string, quantity: number):
     throw new Error('Book not found');
   }
 
-  return book.stockQuantity >= quantity;
+  const reservedQuantity = await getReservedQuantity(bookId, userId);
+
+  return book.stockQuantity - reservedQuantity >= quantity;
 }
 
 /**
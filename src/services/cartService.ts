@@ -0,0 +1,261 @@
+// Cart Service - Business Logic for Shopping Carts
+import { db } from '@/lib/db';
+import { hashToken } from '@/lib/auth';
+import { DEFAULT_CURRENCY, toMinorUnits, formatMinorUnits } from '@/lib/money';
+import {
+  Cart,
+  CartItem,
+  Order,
+  AddCartItemDTO,
+  UpdateCartItemDTO,
+  CheckoutCartDTO,
+  CreateOrderItemDTO,
+} from '@/types/api';
+import { getBookById, checkStockAvailability } from './bookService';
+import { getExchangeRate } from './exchangeRateService';
+import { createOrder } from './orderService';
+
+// Cookie identifying an anonymous cart until its owner signs in
+export const CART_COOKIE_NAME = 'cart_token';
+export const CART_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days in seconds
+
+// A signed-in user's cart, or an anonymous cart identified by its cookie token
+export type CartOwner = { userId: string } | { token: string };
+
+/**
+ * Unique lookup for an owner's cart (anonymous carts are stored by token hash)
+ */
+function getCartWhere(owner: CartOwner) {
+  return 'userId' in owner ? { userId: owner.userId } : { tokenHash: hashToken(owner.token) };
+}
+
+/**
+ * Find an owner's cart with its items, oldest line first
+ */
+async function findCart(owner: CartOwner) {
+  return db.cart.findUnique({
+    where: getCartWhere(owner),
+    include: {
+      items: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * Transform Prisma Cart entity to API Cart type, pricing each line in `currency`
+ * and checking it against current stock
+ */
+async function transformCart(prismaCart: any | null, currency: string): Promise<Cart> {
+  // Reject unsupported currencies even when the cart is empty
+  await getExchangeRate(currency);
+
+  const items: CartItem[] = await Promise.all(
+    (prismaCart?.items || []).map(async (item: any) => {
+      const book = await getBookById(item.bookId, currency);
+      if (!book) {
+        return {
+          bookId: item.bookId,
+          book: null,
+          quantity: item.quantity,
+          unitPrice: null,
+          subtotal: null,
+          inStock: false,
+        };
+      }
+
+      const unitPriceCents = toMinorUnits(book.price)!;
+      return {
+        bookId: item.bookId,
+        book,
+        quantity: item.quantity,
+        unitPrice: book.price,
+        subtotal: formatMinorUnits(unitPriceCents * item.quantity),
+        inStock: await checkStockAvailability(item.bookId, item.quantity, prismaCart.userId ?? undefined),
+      };
+    })
+  );
+
+  const subtotalCents = items.reduce((sum, item) => sum + (item.subtotal ? toMinorUnits(item.subtotal)! : 0), 0);
+
+  return {
+    id: prismaCart?.id ?? null,
+    currency,
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: formatMinorUnits(subtotalCents),
+    updatedAt: prismaCart?.updatedAt ?? null,
+  };
+}
+
+/**
+ * Get an owner's cart, priced in `currency` (empty if they have none yet)
+ */
+export async function getCart(owner: CartOwner, currency: string = DEFAULT_CURRENCY): Promise<Cart> {
+  const prismaCart = await findCart(owner);
+
+  return transformCart(prismaCart, currency);
+}
+
+/**
+ * Get the books and quantities in an owner's cart, without pricing them
+ */
+export async function getCartItems(owner: CartOwner): Promise<CreateOrderItemDTO[]> {
+  const prismaCart = await findCart(owner);
+
+  return prismaCart?.items.map((item) => ({ bookId: item.bookId, quantity: item.quantity })) || [];
+}
+
+/**
+ * Add copies of a book to an owner's cart, creating the cart if needed
+ */
+export async function addCartItem(
+  owner: CartOwner,
+  dto: AddCartItemDTO,
+  currency: string = DEFAULT_CURRENCY
+): Promise<Cart> {
+  const book = await db.book.findUnique({
+    where: { id: dto.bookId },
+    select: { id: true },
+  });
+
+  if (!book) {
+    throw new Error(`Book with ID ${dto.bookId} not found`);
+  }
+
+  const where = getCartWhere(owner);
+  const cart = await db.cart.upsert({
+    where,
+    create: where,
+    update: {},
+  });
+
+  await db.cart.update({
+    where: { id: cart.id },
+    data: {
+      items: {
+        upsert: {
+          where: { cartId_bookId: { cartId: cart.id, bookId: dto.bookId } },
+          create: { bookId: dto.bookId, quantity: dto.quantity },
+          update: { quantity: { increment: dto.quantity } },
+        },
+      },
+    },
+  });
+
+  return getCart(owner, currency);
+}
+
+/**
+ * Set the quantity of a book already in an owner's cart; 0 removes the line
+ */
+export async function updateCartItem(
+  owner: CartOwner,
+  dto: UpdateCartItemDTO,
+  currency: string = DEFAULT_CURRENCY
+): Promise<Cart> {
+  const cart = await findCart(owner);
+
+  if (!cart || !cart.items.some((item) => item.bookId === dto.bookId)) {
+    throw new Error(`Book with ID ${dto.bookId} not found in cart`);
+  }
+
+  const itemWhere = { cartId_bookId: { cartId: cart.id, bookId: dto.bookId } };
+
+  await db.cart.update({
+    where: { id: cart.id },
+    data: {
+      items:
+        dto.quantity === 0
+          ? { delete: itemWhere }
+          : { update: { where: itemWhere, data: { quantity: dto.quantity } } },
+    },
+  });
+
+  return getCart(owner, currency);
+}
+
+/**
+ * Remove a book from an owner's cart
+ */
+export async function removeCartItem(
+  owner: CartOwner,
+  bookId: string,
+  currency: string = DEFAULT_CURRENCY
+): Promise<Cart> {
+  return updateCartItem(owner, { bookId, quantity: 0 }, currency);
+}
+
+/**
+ * Remove every item from an owner's cart
+ */
+export async function clearCart(owner: CartOwner): Promise<void> {
+  await db.cartItem.deleteMany({
+    where: { cart: getCartWhere(owner) },
+  });
+}
+
+/**
+ * Move an anonymous cart's items into a user's cart after sign-in
+ * Quantities of books in both carts are added together
+ */
+export async function mergeGuestCart(token: string, userId: string): Promise<void> {
+  const guestCart = await findCart({ token });
+
+  if (!guestCart) {
+    return;
+  }
+
+  await db.$transaction(async (tx) => {
+    const cart = await tx.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: { updatedAt: new Date() },
+    });
+
+    for (const item of guestCart.items) {
+      await tx.cartItem.upsert({
+        where: { cartId_bookId: { cartId: cart.id, bookId: item.bookId } },
+        create: { cartId: cart.id, bookId: item.bookId, quantity: item.quantity },
+        update: { quantity: { increment: item.quantity } },
+      });
+    }
+
+    await tx.cart.delete({
+      where: { id: guestCart.id },
+    });
+  });
+}
+
+/**
+ * Place an order for everything in a user's cart, then empty the cart
+ * Stock, pricing, tax, coupons and shipping are handled by createOrder
+ */
+export async function checkoutCart(userId: string, dto: CheckoutCartDTO): Promise<Order> {
+  const cart = await findCart({ userId });
+
+  if (!cart || cart.items.length === 0) {
+    throw new Error('Cart is empty');
+  }
+
+  const order = await createOrder(userId, {
+    ...dto,
+    items: cart.items.map((item) => ({ bookId: item.bookId, quantity: item.quantity })),
+  });
+
+  // Only the ordered quantities; copies added during checkout stay in the cart
+  await db.$transaction(async (tx) => {
+    for (const item of cart.items) {
+      await tx.cartItem.deleteMany({
+        where: { id: item.id, quantity: { lte: item.quantity } },
+      });
+      await tx.cartItem.updateMany({
+        where: { id: item.id, quantity: { gt: item.quantity } },
+        data: { quantity: { decrement: item.quantity } },
+      });
+    }
+  });
+
+  return order;
+}
@@ -0,0 +1,87 @@
+// Exchange Rate Service - Business Logic for Currency Conversion Rates
+import { db } from '@/lib/db';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+import { ExchangeRate, SetExchangeRateDTO } from '@/types/api';
+
+/**
+ * Transform Prisma ExchangeRate entity to API ExchangeRate type
+ */
+function transformExchangeRate(prismaRate: any): ExchangeRate {
+  return {
+    currency: prismaRate.currency,
+    rate: prismaRate.rate,
+    updatedById: prismaRate.updatedById,
+    updatedAt: prismaRate.updatedAt,
+  };
+}
+
+/**
+ * List all exchange rates, by currency
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const prismaRates = await db.exchangeRate.findMany({
+    orderBy: { currency: 'asc' },
+  });
+
+  return prismaRates.map(transformExchangeRate);
+}
+
+/**
+ * Get the rate from the store currency to a currency (1 for the store currency)
+ */
+export async function getExchangeRate(currency: string): Promise<number> {
+  if (currency === DEFAULT_CURRENCY) {
+    return 1;
+  }
+
+  const prismaRate = await db.exchangeRate.findUnique({
+    where: { currency },
+  });
+
+  if (!prismaRate) {
+    throw new Error(`Unsupported currency ${currency}: no exchange rate from ${DEFAULT_CURRENCY}`);
+  }
+
+  return prismaRate.rate;
+}
+
+/**
+ * Create or replace the exchange rate for a currency
+ */
+export async function setExchangeRate(
+  currency: string,
+  dto: SetExchangeRateDTO,
+  actorId: string
+): Promise<ExchangeRate> {
+  if (currency === DEFAULT_CURRENCY) {
+    throw new Error(`${DEFAULT_CURRENCY} is the store currency and always has a rate of 1`);
+  }
+
+  const prismaRate = await db.exchangeRate.upsert({
+    where: { currency },
+    create: {
+      currency,
+      rate: dto.rate,
+      updatedById: actorId,
+    },
+    update: {
+      rate: dto.rate,
+      updatedById: actorId,
+    },
+  });
+
+  return transformExchangeRate(prismaRate);
+}
+
+/**
+ * Delete the exchange rate for a currency
+ */
+export async function deleteExchangeRate(currency: string): Promise<void> {
+  const { count } = await db.exchangeRate.deleteMany({
+    where: { currency },
+  });
+
+  if (count === 0) {
+    throw new Error('Exchange rate not found');
+  }
+}
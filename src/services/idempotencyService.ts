@@ -0,0 +1,95 @@
+// Idempotency Service - Replaying Responses for Retried Requests
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { StoredResponse } from '@/types/api';
+
+// How long a key (and its stored response) is kept
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+/**
+ * Hash a request so a reused key can be matched to the request it was first sent with
+ */
+export function hashIdempotentRequest(method: string, path: string, body: string): string {
+  return createHash('sha256').update(`${method} ${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Claim an idempotency key for a request
+ * Returns the stored response if the key was already used for the same request,
+ * or null if the caller should process the request and then complete the key.
+ */
+export async function beginIdempotentRequest(
+  userId: string,
+  key: string,
+  requestHash: string
+): Promise<StoredResponse | null> {
+  // Expired keys may be reused
+  await db.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  const existingKey = await db.idempotencyKey.findUnique({
+    where: { userId_key: { userId, key } },
+  });
+
+  if (existingKey) {
+    if (existingKey.requestHash !== requestHash) {
+      throw new Error('Idempotency key has already been used for a different request');
+    }
+
+    if (existingKey.responseStatus === null || existingKey.responseBody === null) {
+      throw new Error('Idempotency key is in use by a request that is still being processed');
+    }
+
+    return {
+      status: existingKey.responseStatus,
+      body: existingKey.responseBody,
+    };
+  }
+
+  try {
+    await db.idempotencyKey.create({
+      data: {
+        userId,
+        key,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+  } catch (error) {
+    // A concurrent request claimed the key first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Idempotency key is in use by a request that is still being processed');
+    }
+    throw error;
+  }
+
+  return null;
+}
+
+/**
+ * Store the response for a claimed key so retries get the same result
+ */
+export async function completeIdempotentRequest(
+  userId: string,
+  key: string,
+  response: StoredResponse
+): Promise<void> {
+  await db.idempotencyKey.update({
+    where: { userId_key: { userId, key } },
+    data: {
+      responseStatus: response.status,
+      responseBody: response.body,
+    },
+  });
+}
+
+/**
+ * Release a claimed key without a response, so the request can be retried
+ */
+export async function abandonIdempotentRequest(userId: string, key: string): Promise<void> {
+  await db.idempotencyKey.deleteMany({
+    where: { userId, key },
+  });
+}
@@ -0,0 +1,109 @@
+// Login Throttle Service - Brute-force protection for authentication
+import { db } from '@/lib/db';
+
+// Throttle configuration
+const FREE_ATTEMPTS = 3; // Failures allowed before backoff kicks in
+const BASE_BACKOFF_MS = 1000; // First backoff delay, doubled per failure
+const MAX_BACKOFF_MS = 15 * 60 * 1000; // 15 minutes
+const ACCOUNT_LOCKOUT_THRESHOLD = 10; // Failures per account before lockout
+const IP_LOCKOUT_THRESHOLD = 50; // Failures per IP before lockout
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+const FAILURE_WINDOW_MS = 60 * 60 * 1000; // Counters reset after 1 hour without failures
+
+function accountKey(email: string): string {
+  return `account:${email}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+/**
+ * Record a failed attempt for a key and compute its next lock time
+ * The counter is incremented atomically, so concurrent failures are all counted.
+ */
+async function recordFailure(key: string, lockoutThreshold: number): Promise<void> {
+  const now = new Date();
+
+  // Start over once the last failure has left the window
+  await db.loginThrottle.updateMany({
+    where: { key, lastFailedAt: { lt: new Date(now.getTime() - FAILURE_WINDOW_MS) } },
+    data: { failedAttempts: 0, lockedUntil: null },
+  });
+
+  const { failedAttempts } = await db.loginThrottle.upsert({
+    where: { key },
+    create: { key, failedAttempts: 1, lastFailedAt: now },
+    update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+  });
+
+  let lockedUntil: Date | null = null;
+  if (failedAttempts >= lockoutThreshold) {
+    lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
+  } else if (failedAttempts > FREE_ATTEMPTS) {
+    // Exponential backoff: 1s, 2s, 4s, ... capped at MAX_BACKOFF_MS
+    const delay = Math.min(BASE_BACKOFF_MS * 2 ** (failedAttempts - FREE_ATTEMPTS - 1), MAX_BACKOFF_MS);
+    lockedUntil = new Date(now.getTime() + delay);
+  }
+
+  if (!lockedUntil) {
+    return;
+  }
+
+  // Only ever extend the lock, so a slower concurrent failure cannot shorten it
+  await db.loginThrottle.updateMany({
+    where: { key, OR: [{ lockedUntil: null }, { lockedUntil: { lt: lockedUntil } }] },
+    data: { lockedUntil },
+  });
+}
+
+/**
+ * Get the number of seconds a login for this account/IP must wait (0 if allowed)
+ */
+export async function getLoginRetryAfter(email: string, ip: string): Promise<number> {
+  const records = await db.loginThrottle.findMany({
+    where: { key: { in: [accountKey(email), ipKey(ip)] } },
+  });
+
+  const now = Date.now();
+  const waitMs = records.reduce((max, record) => {
+    const remaining = record.lockedUntil ? record.lockedUntil.getTime() - now : 0;
+    return Math.max(max, remaining);
+  }, 0);
+
+  return Math.ceil(waitMs / 1000);
+}
+
+/**
+ * Record a failed login for both the account and the client IP
+ */
+export async function recordLoginFailure(email: string, ip: string): Promise<void> {
+  await recordFailure(accountKey(email), ACCOUNT_LOCKOUT_THRESHOLD);
+  await recordFailure(ipKey(ip), IP_LOCKOUT_THRESHOLD);
+}
+
+/**
+ * Clear the account's failure history after a successful login.
+ * IP counters are left to expire so one valid account cannot reset them.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await db.loginThrottle.deleteMany({
+    where: { key: accountKey(email) },
+  });
+}
+
+/**
+ * Unlock an account (Admin only)
+ */
+export async function unlockAccount(userId: string): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  await clearLoginFailures(user.email);
+}
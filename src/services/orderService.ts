@@ -1,8 +1,79 @@
 // Order Service - Business Logic for Order Operations
 import { db } from '@/lib/db';
-import { Order, CreateOrderDTO, UpdateOrderStatusDTO, OrderListQuery, PaginatedResponse } from '@/types/api';
+import { getPaymentProvider } from '@/lib/payment';
+import { DEFAULT_CURRENCY, formatMinorUnits } from '@/lib/money';
+import {
+  Order,
+  TaxBreakdownEntry,
+  CreateOrderDTO,
+  UpdateOrderStatusDTO,
+  CancelOrderDTO,
+  OrderStatusHistoryEntry,
+  OrderListQuery,
+  PaginatedResponse,
+  CancelPaymentResponse,
+} from '@/types/api';
 import { OrderStatus, PaymentStatus } from '@prisma/client';
-import { checkStockAvailability, decrementStock, getBookById } from './bookService';
+import { checkStockAvailability, decrementStock, getBookPriceCents } from './bookService';
+import { getExchangeRate } from './exchangeRateService';
+import { calculateTax, getTaxRegion } from './taxService';
+import { applyPromotion, checkPromotionUsage } from './promotionService';
+import { getReservedQuantity, consumeReservation } from './reservationService';
+import { resolveShippingAddress } from './addressService';
+import { calculateShipping, DEFAULT_SHIPPING_METHOD } from './shippingService';
+import { createRefund } from './refundService';
+
+// Allowed order status transitions; DELIVERED and CANCELLED are final
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Check whether an order may move from one status to another
+ */
+function isAllowedTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Transform Prisma OrderStatusHistory entity to API type
+ */
+function transformStatusHistory(prismaEntry: any): OrderStatusHistoryEntry {
+  return {
+    id: prismaEntry.id,
+    orderId: prismaEntry.orderId,
+    fromStatus: prismaEntry.fromStatus,
+    toStatus: prismaEntry.toStatus,
+    actorId: prismaEntry.actorId,
+    note: prismaEntry.note,
+    createdAt: prismaEntry.createdAt,
+  };
+}
+
+/**
+ * Sum an order's items into net and tax totals per tax class and rate
+ */
+function buildTaxBreakdown(prismaOrderItems: any[]): TaxBreakdownEntry[] {
+  const entries = new Map<string, { taxClass: string; rate: number; netCents: number; taxCents: number }>();
+
+  for (const item of prismaOrderItems) {
+    const key = `${item.taxClass}:${item.taxRate}`;
+    const entry = entries.get(key) || { taxClass: item.taxClass, rate: item.taxRate, netCents: 0, taxCents: 0 };
+    entry.netCents += item.subtotalCents - item.discountCents;
+    entry.taxCents += item.taxCents;
+    entries.set(key, entry);
+  }
+
+  return Array.from(entries.values()).map((entry) => ({
+    taxClass: entry.taxClass,
+    rate: entry.rate,
+    net: formatMinorUnits(entry.netCents),
+    tax: formatMinorUnits(entry.taxCents),
+  }));
+}
 
 /**
  * Transform Prisma Order entity to API Order type
@@ -25,8 +96,13 @@ async function transformOrder(prismaOrder: any): Promise<Order> {
         bookId: item.bookId,
         book: bookDetails,
         quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        subtotal: item.subtotal,
+        unitPrice: formatMinorUnits(item.unitPriceCents),
+        subtotal: formatMinorUnits(item.subtotalCents),
+        discount: formatMinorUnits(item.discountCents),
+        taxClass: item.taxClass,
+        taxRate: item.taxRate,
+        tax: formatMinorUnits(item.taxCents),
+        total: formatMinorUnits(item.totalCents),
       };
     })
   );
@@ -42,9 +118,29 @@ async function transformOrder(prismaOrder: any): Promise<Order> {
         }
       : undefined,
     orderItems,
-    totalPrice: prismaOrder.totalPrice,
+    subtotal: formatMinorUnits(prismaOrder.subtotalCents),
+    discount: formatMinorUnits(prismaOrder.discountCents),
+    discounts: prismaOrder.discounts.map((discount: any) => ({
+      id: discount.id,
+      promotionId: discount.promotionId,
+      code: discount.code,
+      description: discount.description,
+      amount: formatMinorUnits(discount.amountCents),
+    })),
+    tax: formatMinorUnits(prismaOrder.taxCents),
+    shipping: formatMinorUnits(prismaOrder.shippingCents),
+    totalPrice: formatMinorUnits(prismaOrder.totalPriceCents),
+    currency: prismaOrder.currency,
+    exchangeRate: prismaOrder.exchangeRate,
+    taxRegion: prismaOrder.taxRegion,
+    taxBreakdown: buildTaxBreakdown(prismaOrder.orderItems),
+    shippingAddress: prismaOrder.shippingAddress ? JSON.parse(prismaOrder.shippingAddress) : null,
+    shippingMethod: prismaOrder.shippingMethod,
     orderStatus: prismaOrder.orderStatus,
     paymentStatus: prismaOrder.paymentStatus,
+    cancelledAt: prismaOrder.cancelledAt,
+    cancelledById: prismaOrder.cancelledById,
+    cancellationReason: prismaOrder.cancellationReason,
     createdAt: prismaOrder.createdAt,
     updatedAt: prismaOrder.updatedAt,
   };
@@ -55,15 +151,15 @@ async function transformOrder(prismaOrder: any): Promise<Order> {
  */
 export async function getOrders(
   userId: string | null,
-  isAdmin: boolean,
+  canReadAll: boolean,
   query: OrderListQuery
 ): Promise<PaginatedResponse<Order>> {
   const page = query.page || 1;
   const size = Math.min(query.size || 10, 100); // Max 100 items per page
   const skip = (page - 1) * size;
 
-  // Build where clause based on user role
-  const where = isAdmin ? {} : { userId };
+  // Build where clause based on user permissions
+  const where = canReadAll ? {} : { userId };
 
   // Get total count
   const totalElements = await db.order.count({ where });
@@ -87,6 +183,7 @@ export async function getOrders(
           book: true,
         },
       },
+      discounts: true,
     },
   });
 
@@ -124,6 +221,7 @@ export async function getOrderById(id: string): Promise<Order | null> {
           book: true,
         },
       },
+      discounts: true,
     },
   });
 
@@ -144,42 +242,114 @@ export async function createOrder(userId: string, dto: CreateOrderDTO): Promise<
     throw new Error('Order must contain at least one item');
   }
 
+  // Only verified accounts may place orders
+  const customer = await db.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true },
+  });
+
+  if (!customer) {
+    throw new Error('User not found');
+  }
+
+  if (!customer.emailVerifiedAt) {
+    throw new Error('Email address must be verified before placing orders');
+  }
+
+  // Snapshot the destination so later address book edits don't change the order
+  const shippingAddress = await resolveShippingAddress(userId, dto);
+
+  // Lock in the currency, exchange rate and tax region for the whole order
+  const currency = dto.currency || DEFAULT_CURRENCY;
+  const exchangeRate = await getExchangeRate(currency);
+  const taxRegion = getTaxRegion(shippingAddress.country, shippingAddress.region);
+
   // Get books and validate stock availability
-  const orderItems = [];
-  let totalPrice = 0;
+  const pricedItems: {
+    bookId: string;
+    quantity: number;
+    unitPriceCents: number;
+    subtotalCents: number;
+    taxClass: string;
+    genre: string;
+  }[] = [];
 
   for (const item of dto.items) {
-    if (!item.bookId || !item.quantity || item.quantity <= 0) {
+    if (!item.bookId || !Number.isInteger(item.quantity) || item.quantity <= 0) {
       throw new Error('Invalid order item');
     }
 
     // Get book details
-    const book = await getBookById(item.bookId);
+    const book = await db.book.findUnique({
+      where: { id: item.bookId },
+      include: {
+        prices: {
+          where: { currency },
+        },
+      },
+    });
     if (!book) {
       throw new Error(`Book with ID ${item.bookId} not found`);
     }
 
-    // Check stock availability
-    const isAvailable = await checkStockAvailability(item.bookId, item.quantity);
+    // Check stock availability (the customer's own reservation counts as available)
+    const isAvailable = await checkStockAvailability(item.bookId, item.quantity, userId);
     if (!isAvailable) {
+      const available = book.stockQuantity - (await getReservedQuantity(item.bookId, userId));
       throw new Error(
-        `Insufficient stock for book "${book.title}". Available: ${book.stockQuantity}, Requested: ${item.quantity}`
+        `Insufficient stock for book "${book.title}". Available: ${Math.max(available, 0)}, Requested: ${item.quantity}`
       );
     }
 
-    const subtotal = book.price * item.quantity;
-    totalPrice += subtotal;
-
-    orderItems.push({
+    // Integer cents, so totals never pick up floating point errors
+    const unitPriceCents = getBookPriceCents(book, currency, exchangeRate);
+    pricedItems.push({
       bookId: item.bookId,
       quantity: item.quantity,
-      unitPrice: book.price,
-      subtotal,
+      unitPriceCents,
+      subtotalCents: unitPriceCents * item.quantity,
+      taxClass: book.taxClass,
+      genre: book.genre,
     });
   }
 
+  // Discounts come off before tax
+  const promotion = dto.couponCode
+    ? await applyPromotion(dto.couponCode, userId, pricedItems, exchangeRate)
+    : null;
+  const itemDiscounts = pricedItems.map((_, index) => promotion?.itemDiscounts[index] ?? 0);
+
+  // Tax each line under the order's tax region
+  const taxedLines = await calculateTax(
+    taxRegion,
+    pricedItems.map((item, index) => ({ taxClass: item.taxClass, netCents: item.subtotalCents - itemDiscounts[index] }))
+  );
+  const orderItems = pricedItems.map((item, index) => ({
+    bookId: item.bookId,
+    quantity: item.quantity,
+    unitPriceCents: item.unitPriceCents,
+    subtotalCents: item.subtotalCents,
+    discountCents: itemDiscounts[index],
+    taxClass: item.taxClass,
+    taxRate: taxedLines[index].taxRate,
+    taxCents: taxedLines[index].taxCents,
+    totalCents: taxedLines[index].grossCents,
+  }));
+  const subtotalCents = orderItems.reduce((sum, item) => sum + item.subtotalCents, 0);
+  const discountCents = promotion?.amountCents ?? 0;
+  const taxCents = orderItems.reduce((sum, item) => sum + item.taxCents, 0);
+
+  // Shipping is charged on top, untaxed, at the rate for the shipping address
+  const shippingMethod = dto.shippingMethod || DEFAULT_SHIPPING_METHOD;
+  const shippingCents = await calculateShipping(shippingMethod, shippingAddress, dto.items, exchangeRate);
+
   // Use transaction to ensure atomicity
   const result = await db.$transaction(async (tx) => {
+    // Re-check usage limits so concurrent orders cannot overuse a coupon
+    if (promotion) {
+      await checkPromotionUsage(tx, promotion.promotionId, userId);
+    }
+
     // Decrement stock for each book
     for (const item of orderItems) {
       const book = await tx.book.findUnique({
@@ -187,7 +357,7 @@ export async function createOrder(userId: string, dto: CreateOrderDTO): Promise<
         select: { stockQuantity: true },
       });
 
-      if (!book || book.stockQuantity < item.quantity) {
+      if (!book || book.stockQuantity - (await getReservedQuantity(item.bookId, userId, tx)) < item.quantity) {
         throw new Error(
           'Stock validation failed during order processing. Please try again.'
         );
@@ -207,12 +377,40 @@ export async function createOrder(userId: string, dto: CreateOrderDTO): Promise<
     const prismaOrder = await tx.order.create({
       data: {
         userId,
-        totalPrice,
+        subtotalCents,
+        discountCents,
+        taxCents,
+        shippingCents,
+        totalPriceCents: subtotalCents - discountCents + taxCents + shippingCents,
+        currency,
+        exchangeRate,
+        taxRegion,
+        shippingAddress: JSON.stringify(shippingAddress),
+        shippingMethod,
         orderStatus: OrderStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         orderItems: {
           create: orderItems,
         },
+        discounts: {
+          create: promotion
+            ? [
+                {
+                  promotionId: promotion.promotionId,
+                  code: promotion.code,
+                  description: promotion.description,
+                  amountCents: promotion.amountCents,
+                },
+              ]
+            : [],
+        },
+        statusHistory: {
+          create: {
+            fromStatus: null,
+            toStatus: OrderStatus.PENDING,
+            actorId: userId,
+          },
+        },
       },
       include: {
         user: {
@@ -227,9 +425,13 @@ export async function createOrder(userId: string, dto: CreateOrderDTO): Promise<
             book: true,
           },
         },
+        discounts: true,
       },
     });
 
+    // The stock the customer had reserved has now been decremented
+    await consumeReservation(tx, userId);
+
     return prismaOrder;
   });
 
@@ -237,9 +439,10 @@ export async function createOrder(userId: string, dto: CreateOrderDTO): Promise<
 }
 
 /**
- * Update order status (Admin only)
+ * Update order status following the transition table
+ * Cancellations go through cancelOrder so stock is restored
  */
-export async function updateOrderStatus(id: string, dto: UpdateOrderStatusDTO): Promise<Order> {
+export async function updateOrderStatus(id: string, dto: UpdateOrderStatusDTO, actorId: string): Promise<Order> {
   // Check if order exists
   const existingOrder = await db.order.findUnique({
     where: { id },
@@ -249,36 +452,80 @@ export async function updateOrderStatus(id: string, dto: UpdateOrderStatusDTO):
     throw new Error('Order not found');
   }
 
-  // Update order status
-  const prismaOrder = await db.order.update({
-    where: { id },
-    data: {
-      orderStatus: dto.status,
-    },
-    include: {
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
+  if (!isAllowedTransition(existingOrder.orderStatus, dto.status)) {
+    throw new Error(`Cannot change order status from ${existingOrder.orderStatus} to ${dto.status}`);
+  }
+
+  // Only paid orders can be shipped (partially refunded orders ship their remaining items)
+  if (
+    dto.status === OrderStatus.SHIPPED &&
+    existingOrder.paymentStatus !== PaymentStatus.PAID &&
+    existingOrder.paymentStatus !== PaymentStatus.PARTIALLY_REFUNDED
+  ) {
+    throw new Error(`Cannot change order status from ${existingOrder.orderStatus} to SHIPPED: order has not been paid`);
+  }
+
+  if (dto.status === OrderStatus.CANCELLED) {
+    return cancelOrder(id, actorId, true, { reason: dto.note });
+  }
+
+  const result = await db.$transaction(async (tx) => {
+    // Guard on the current status so concurrent updates cannot skip a transition
+    const { count } = await tx.order.updateMany({
+      where: { id, orderStatus: existingOrder.orderStatus },
+      data: {
+        orderStatus: dto.status,
       },
-      orderItems: {
-        include: {
-          book: true,
+    });
+
+    if (count === 0) {
+      throw new Error('Cannot change order status: the order was updated concurrently');
+    }
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: id,
+        fromStatus: existingOrder.orderStatus,
+        toStatus: dto.status,
+        actorId,
+        note: dto.note || null,
+      },
+    });
+
+    return tx.order.findUniqueOrThrow({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        orderItems: {
+          include: {
+            book: true,
+          },
         },
+        discounts: true,
       },
-    },
+    });
   });
 
-  return transformOrder(prismaOrder);
+  return transformOrder(result);
 }
 
 /**
- * Cancel an order (Customer only, for their own orders)
+ * Cancel a pending order, restore its stock and refund it if it was paid
+ * Owners may cancel their own orders; staff with orders:cancel may cancel any order with a reason
  */
-export async function cancelOrder(orderId: string, userId: string): Promise<Order> {
-  // Check if order exists and belongs to user
+export async function cancelOrder(
+  orderId: string,
+  userId: string,
+  canCancelAny: boolean,
+  dto: CancelOrderDTO
+): Promise<Order> {
+  // Check if order exists
   const existingOrder = await db.order.findUnique({
     where: { id: orderId },
   });
@@ -287,16 +534,47 @@ export async function cancelOrder(orderId: string, userId: string): Promise<Orde
     throw new Error('Order not found');
   }
 
-  if (existingOrder.userId !== userId) {
+  const isOwner = existingOrder.userId === userId;
+
+  if (!isOwner && !canCancelAny) {
     throw new Error('You can only cancel your own orders');
   }
 
-  if (existingOrder.orderStatus !== OrderStatus.PENDING) {
+  if (!isOwner && !dto.reason) {
+    throw new Error("A reason is required when cancelling another customer's order");
+  }
+
+  if (!isAllowedTransition(existingOrder.orderStatus, OrderStatus.CANCELLED)) {
     throw new Error('Only pending orders can be cancelled');
   }
 
   // Use transaction to restore stock and cancel order
   const result = await db.$transaction(async (tx) => {
+    // Guard on status so concurrent cancellations restore stock only once
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, orderStatus: OrderStatus.PENDING },
+      data: {
+        orderStatus: OrderStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancelledById: userId,
+        cancellationReason: dto.reason || null,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error('Only pending orders can be cancelled');
+    }
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: OrderStatus.PENDING,
+        toStatus: OrderStatus.CANCELLED,
+        actorId: userId,
+        note: dto.reason || null,
+      },
+    });
+
     // Restore stock for each book
     const orderItems = await tx.orderItem.findMany({
       where: { orderId },
@@ -313,12 +591,8 @@ export async function cancelOrder(orderId: string, userId: string): Promise<Orde
       });
     }
 
-    // Cancel order
-    const prismaOrder = await tx.order.update({
+    return tx.order.findUniqueOrThrow({
       where: { id: orderId },
-      data: {
-        orderStatus: OrderStatus.CANCELLED,
-      },
       include: {
         user: {
           select: {
@@ -332,11 +606,72 @@ export async function cancelOrder(orderId: string, userId: string): Promise<Orde
             book: true,
           },
         },
+        discounts: true,
       },
     });
-
-    return prismaOrder;
   });
 
+  await voidPendingPayments(orderId);
+
+  // Paid orders are refunded automatically; a failed refund stays on record for an admin to retry
+  if (
+    result.paymentStatus === PaymentStatus.PAID ||
+    result.paymentStatus === PaymentStatus.PARTIALLY_REFUNDED
+  ) {
+    try {
+      await createRefund(orderId, { reason: dto.reason || 'Order cancelled' }, userId);
+    } catch (error) {
+      console.error(`Automatic refund for cancelled order ${orderId} failed:`, error);
+    }
+
+    return (await getOrderById(orderId))!;
+  }
+
   return transformOrder(result);
 }
+
+/**
+ * Void a cancelled order's payments that are still awaiting confirmation
+ * A payment the provider cannot void is refunded if it is confirmed later (see handlePaymentWebhook)
+ */
+async function voidPendingPayments(orderId: string): Promise<void> {
+  const pendingPayments = await db.payment.findMany({
+    where: { orderId, status: PaymentStatus.PENDING, providerPaymentId: { not: null } },
+  });
+
+  for (const payment of pendingPayments) {
+    let response: CancelPaymentResponse;
+    try {
+      response = await getPaymentProvider().cancel({ paymentId: payment.providerPaymentId! });
+    } catch (error: any) {
+      response = { success: false, message: error.message || 'Payment provider error' };
+    }
+
+    if (!response.success) {
+      console.error(`Could not void payment ${payment.id} of cancelled order ${orderId}: ${response.message}`);
+      continue;
+    }
+
+    // Guard on status in case the confirmation arrived in the meantime
+    await db.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.PENDING },
+      data: {
+        status: PaymentStatus.FAILED,
+        pendingOrderId: null,
+        failureReason: 'Voided: order cancelled',
+      },
+    });
+  }
+}
+
+/**
+ * Get the status history of an order, oldest first
+ */
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  const prismaEntries = await db.orderStatusHistory.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return prismaEntries.map(transformStatusHistory);
+}
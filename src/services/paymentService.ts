@@ -0,0 +1,254 @@
+// Payment Service - Business Logic for Order Payments
+import { Prisma, PaymentStatus, OrderStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getPaymentProvider } from '@/lib/payment';
+import { formatMinorUnits } from '@/lib/money';
+import {
+  Payment,
+  PayOrderDTO,
+  PayOrderResponse,
+  PaymentResponse,
+  PaymentWebhookEvent,
+  PaymentWebhookResult,
+} from '@/types/api';
+import { getOrderById } from './orderService';
+import { createRefund } from './refundService';
+
+// Payment status each webhook event type settles a payment to
+const WEBHOOK_EVENT_STATUSES: Record<string, PaymentStatus> = {
+  'payment.succeeded': PaymentStatus.PAID,
+  'payment.failed': PaymentStatus.FAILED,
+};
+
+/**
+ * Transform Prisma Payment entity to API Payment type
+ */
+function transformPayment(prismaPayment: any): Payment {
+  return {
+    id: prismaPayment.id,
+    orderId: prismaPayment.orderId,
+    provider: prismaPayment.provider,
+    providerPaymentId: prismaPayment.providerPaymentId,
+    amount: formatMinorUnits(prismaPayment.amountCents),
+    currency: prismaPayment.currency,
+    paymentMethod: prismaPayment.paymentMethod,
+    status: prismaPayment.status,
+    failureReason: prismaPayment.failureReason,
+    createdAt: prismaPayment.createdAt,
+    updatedAt: prismaPayment.updatedAt,
+  };
+}
+
+/**
+ * Refund an order that was cancelled while its payment was awaiting confirmation
+ * Runs once the payment settles as PAID; a failed refund stays on record for an admin to retry
+ */
+async function refundIfCancelled(orderId: string): Promise<void> {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    select: { orderStatus: true, paymentStatus: true, cancelledById: true },
+  });
+
+  if (order?.orderStatus !== OrderStatus.CANCELLED || order.paymentStatus !== PaymentStatus.PAID) {
+    return;
+  }
+
+  try {
+    await createRefund(orderId, { reason: 'Order cancelled' }, order.cancelledById);
+  } catch (error) {
+    console.error(`Automatic refund for cancelled order ${orderId} failed:`, error);
+  }
+}
+
+/**
+ * Pay for an order through the configured payment provider
+ * Only unpaid (PENDING or FAILED) orders can be paid. Settled attempts move the
+ * order's paymentStatus to PAID or FAILED.
+ */
+export async function payOrder(orderId: string, userId: string, dto: PayOrderDTO): Promise<PayOrderResponse> {
+  const existingOrder = await db.order.findUnique({
+    where: { id: orderId },
+  });
+
+  if (!existingOrder) {
+    throw new Error('Order not found');
+  }
+
+  if (existingOrder.userId !== userId) {
+    throw new Error('You can only pay for your own orders');
+  }
+
+  if (existingOrder.orderStatus === OrderStatus.CANCELLED) {
+    throw new Error('Cancelled orders cannot be paid');
+  }
+
+  if (existingOrder.paymentStatus === PaymentStatus.PAID) {
+    throw new Error('Order is already paid');
+  }
+
+  if (existingOrder.paymentStatus !== PaymentStatus.PENDING && existingOrder.paymentStatus !== PaymentStatus.FAILED) {
+    throw new Error('Refunded orders cannot be paid again');
+  }
+
+  const provider = getPaymentProvider();
+
+  // Record the attempt before charging so it is never lost. pendingOrderId is unique,
+  // so of two concurrent attempts only one is recorded and charged.
+  let attempt;
+  try {
+    attempt = await db.payment.create({
+      data: {
+        orderId,
+        provider: provider.name,
+        amountCents: existingOrder.totalPriceCents,
+        currency: existingOrder.currency,
+        paymentMethod: dto.paymentMethod,
+        status: PaymentStatus.PENDING,
+        pendingOrderId: orderId,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('A payment for this order is already awaiting confirmation');
+    }
+    throw error;
+  }
+
+  let response: PaymentResponse;
+  try {
+    response = await provider.charge({
+      orderId,
+      amount: existingOrder.totalPriceCents,
+      currency: existingOrder.currency,
+      paymentMethod: dto.paymentMethod,
+    });
+  } catch (error: any) {
+    await db.payment.update({
+      where: { id: attempt.id },
+      data: {
+        status: PaymentStatus.FAILED,
+        pendingOrderId: null,
+        failureReason: error.message || 'Payment provider error',
+      },
+    });
+    throw new Error('Payment provider is unavailable, please try again later');
+  }
+
+  const prismaPayment = await db.$transaction(async (tx) => {
+    const updatedPayment = await tx.payment.update({
+      where: { id: attempt.id },
+      data: {
+        providerPaymentId: response.paymentId || null,
+        status: response.status,
+        pendingOrderId: response.status === PaymentStatus.PENDING ? orderId : null,
+        failureReason: response.success ? null : response.message || 'Payment failed',
+      },
+    });
+
+    // PENDING attempts leave the order untouched until the provider confirms them
+    if (response.status !== PaymentStatus.PENDING) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { paymentStatus: response.status },
+      });
+    }
+
+    return updatedPayment;
+  });
+
+  // The order may have been cancelled while the provider was charging
+  if (response.status === PaymentStatus.PAID) {
+    await refundIfCancelled(orderId);
+  }
+
+  const order = await getOrderById(orderId);
+
+  return {
+    payment: transformPayment(prismaPayment),
+    order: order!,
+  };
+}
+
+/**
+ * Apply a verified payment webhook event; duplicate deliveries are ignored
+ */
+export async function handlePaymentWebhook(
+  provider: string,
+  event: PaymentWebhookEvent,
+  rawPayload: string
+): Promise<PaymentWebhookResult> {
+  const existingEvent = await db.paymentWebhookEvent.findUnique({
+    where: { provider_eventId: { provider, eventId: event.id } },
+  });
+
+  if (existingEvent) {
+    return { received: true, duplicate: true };
+  }
+
+  // Not recorded, so the provider's retry can succeed once the payment exists
+  const payment = await db.payment.findUnique({
+    where: { providerPaymentId: event.data.paymentId },
+  });
+
+  if (!payment) {
+    throw new Error('Payment not found');
+  }
+
+  const settledStatus = WEBHOOK_EVENT_STATUSES[event.type];
+
+  try {
+    await db.$transaction(async (tx) => {
+      // Concurrent deliveries of the same event fail here on the unique constraint
+      await tx.paymentWebhookEvent.create({
+        data: {
+          provider,
+          eventId: event.id,
+          type: event.type,
+          payload: rawPayload,
+        },
+      });
+
+      // Unknown event types are recorded but ignored
+      if (!settledStatus) {
+        return;
+      }
+
+      // Only pending attempts settle; late or out-of-order events are ignored
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
+        data: {
+          status: settledStatus,
+          pendingOrderId: null,
+          failureReason: settledStatus === PaymentStatus.FAILED
+            ? event.data.failureReason || 'Payment failed'
+            : null,
+        },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      // Never override an order that is already paid or refunded
+      await tx.order.updateMany({
+        where: {
+          id: payment.orderId,
+          paymentStatus: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] },
+        },
+        data: { paymentStatus: settledStatus },
+      });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { received: true, duplicate: true };
+    }
+    throw error;
+  }
+
+  // A payment confirmed after its order was cancelled is refunded straight away
+  if (settledStatus === PaymentStatus.PAID) {
+    await refundIfCancelled(payment.orderId);
+  }
+
+  return { received: true, duplicate: false };
+}
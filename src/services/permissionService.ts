@@ -0,0 +1,23 @@
+// Permission Service - Resolves staff role permissions
+import { db } from '@/lib/db';
+import { PermissionKey } from '@/types/api';
+
+/**
+ * Get the permissions granted to a user through their staff roles
+ */
+export async function getUserPermissions(userId: string): Promise<PermissionKey[]> {
+  const permissions = await db.permission.findMany({
+    where: {
+      roles: {
+        some: {
+          users: {
+            some: { id: userId },
+          },
+        },
+      },
+    },
+    select: { key: true },
+  });
+
+  return permissions.map((permission) => permission.key as PermissionKey);
+}
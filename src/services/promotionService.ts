@@ -0,0 +1,406 @@
+// Promotion Service - Business Logic for Coupon Codes and Discounts
+import { Prisma, PromotionType, OrderStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { toMinorUnits, formatMinorUnits, convertMinorUnits } from '@/lib/money';
+import {
+  Promotion,
+  CreatePromotionDTO,
+  UpdatePromotionDTO,
+  DiscountableItem,
+  AppliedPromotion,
+} from '@/types/api';
+
+/**
+ * Transform Prisma Promotion entity (with usage count) to API Promotion type
+ */
+function transformPromotion(prismaPromotion: any): Promotion {
+  return {
+    id: prismaPromotion.id,
+    code: prismaPromotion.code,
+    description: prismaPromotion.description,
+    type: prismaPromotion.type,
+    percentOff: prismaPromotion.percentOff,
+    amountOff: prismaPromotion.amountOffCents !== null ? formatMinorUnits(prismaPromotion.amountOffCents) : null,
+    buyQuantity: prismaPromotion.buyQuantity,
+    getQuantity: prismaPromotion.getQuantity,
+    genre: prismaPromotion.genre,
+    minSpend: prismaPromotion.minSpendCents !== null ? formatMinorUnits(prismaPromotion.minSpendCents) : null,
+    maxUses: prismaPromotion.maxUses,
+    maxUsesPerCustomer: prismaPromotion.maxUsesPerCustomer,
+    startsAt: prismaPromotion.startsAt,
+    endsAt: prismaPromotion.endsAt,
+    active: prismaPromotion.active,
+    timesUsed: prismaPromotion._count?.orderDiscounts ?? 0,
+    createdAt: prismaPromotion.createdAt,
+    updatedAt: prismaPromotion.updatedAt,
+  };
+}
+
+// Only orders that were not cancelled use up a code
+const USED_DISCOUNTS_WHERE: Prisma.OrderDiscountWhereInput = {
+  order: { orderStatus: { not: OrderStatus.CANCELLED } },
+};
+
+const PROMOTION_INCLUDE = {
+  _count: {
+    select: { orderDiscounts: { where: USED_DISCOUNTS_WHERE } },
+  },
+};
+
+/**
+ * Convert an optional decimal amount to minor units
+ */
+function parseOptionalAmount(field: string, amount: string | number | null | undefined): number | null | undefined {
+  if (amount === undefined || amount === null) {
+    return amount;
+  }
+
+  const amountCents = toMinorUnits(amount);
+  if (amountCents === null) {
+    throw new Error(`Invalid promotion: ${field} must be a decimal amount with at most 2 decimal places`);
+  }
+
+  return amountCents;
+}
+
+/**
+ * Check that a promotion has the fields its type needs and consistent limits
+ */
+function validatePromotion(promotion: Omit<Prisma.PromotionCreateInput, 'code'>): void {
+  const isPositiveInteger = (value: number | null | undefined) => Number.isInteger(value) && value! > 0;
+
+  if (
+    promotion.type === PromotionType.PERCENTAGE &&
+    !(typeof promotion.percentOff === 'number' && promotion.percentOff > 0 && promotion.percentOff <= 100)
+  ) {
+    throw new Error('Invalid promotion: PERCENTAGE promotions need percentOff between 0 and 100');
+  }
+
+  if (promotion.type === PromotionType.FIXED_AMOUNT && !isPositiveInteger(promotion.amountOffCents)) {
+    throw new Error('Invalid promotion: FIXED_AMOUNT promotions need a positive amountOff');
+  }
+
+  if (
+    promotion.type === PromotionType.BUY_X_GET_Y &&
+    !(isPositiveInteger(promotion.buyQuantity) && isPositiveInteger(promotion.getQuantity))
+  ) {
+    throw new Error('Invalid promotion: BUY_X_GET_Y promotions need positive integer buyQuantity and getQuantity');
+  }
+
+  for (const [field, value] of [['maxUses', promotion.maxUses], ['maxUsesPerCustomer', promotion.maxUsesPerCustomer]] as const) {
+    if (value !== null && value !== undefined && !isPositiveInteger(value)) {
+      throw new Error(`Invalid promotion: ${field} must be a positive integer`);
+    }
+  }
+
+  if (promotion.startsAt && promotion.endsAt && new Date(promotion.startsAt) >= new Date(promotion.endsAt)) {
+    throw new Error('Invalid promotion: startsAt must be before endsAt');
+  }
+}
+
+/**
+ * Describe what a promotion does, for order discount lines
+ */
+function describePromotion(promotion: any, amountOffCents: number): string {
+  if (promotion.description) {
+    return promotion.description;
+  }
+
+  const scope = promotion.genre ? ` ${promotion.genre} books` : '';
+
+  switch (promotion.type) {
+    case PromotionType.PERCENTAGE:
+      return `${promotion.percentOff}% off${scope}`;
+    case PromotionType.FIXED_AMOUNT:
+      return `${formatMinorUnits(amountOffCents)} off${scope}`;
+    default:
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free${scope}`;
+  }
+}
+
+/**
+ * Split an amount across weights, rounding so the parts add up exactly
+ */
+function allocate(amountCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let cumulativeWeight = 0;
+  let allocated = 0;
+
+  return weights.map((weight) => {
+    cumulativeWeight += weight;
+    const share = totalWeight > 0 ? Math.round((amountCents * cumulativeWeight) / totalWeight) - allocated : 0;
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Work out each item's discount (minor units) under a promotion
+ */
+function calculateItemDiscounts(
+  promotion: any,
+  items: DiscountableItem[],
+  eligible: boolean[],
+  exchangeRate: number
+): number[] {
+  switch (promotion.type) {
+    case PromotionType.PERCENTAGE:
+      return items.map((item, index) =>
+        eligible[index] ? Math.round((item.subtotalCents * promotion.percentOff) / 100) : 0
+      );
+
+    case PromotionType.FIXED_AMOUNT: {
+      // Never discount more than the eligible items cost
+      const eligibleSubtotals = items.map((item, index) => (eligible[index] ? item.subtotalCents : 0));
+      const eligibleTotal = eligibleSubtotals.reduce((sum, subtotal) => sum + subtotal, 0);
+      const amountCents = Math.min(convertMinorUnits(promotion.amountOffCents, exchangeRate), eligibleTotal);
+      return allocate(amountCents, eligibleSubtotals);
+    }
+
+    default: {
+      // The cheapest eligible units are the free ones
+      const units = items
+        .flatMap((item, index) =>
+          eligible[index] ? Array.from({ length: item.quantity }, () => ({ index, priceCents: item.unitPriceCents })) : []
+        )
+        .sort((a, b) => a.priceCents - b.priceCents);
+      const freeUnits =
+        Math.floor(units.length / (promotion.buyQuantity + promotion.getQuantity)) * promotion.getQuantity;
+
+      const discounts = items.map(() => 0);
+      for (const unit of units.slice(0, freeUnits)) {
+        discounts[unit.index] += unit.priceCents;
+      }
+      return discounts;
+    }
+  }
+}
+
+/**
+ * Check a promotion's usage limits, overall and for a customer
+ * Pass a transaction client to re-check while the order is being written
+ */
+export async function checkPromotionUsage(
+  client: Prisma.TransactionClient,
+  promotionId: string,
+  userId: string
+): Promise<void> {
+  const promotion = await client.promotion.findUniqueOrThrow({
+    where: { id: promotionId },
+  });
+
+  if (promotion.maxUses !== null) {
+    const uses = await client.orderDiscount.count({
+      where: { ...USED_DISCOUNTS_WHERE, promotionId },
+    });
+
+    if (uses >= promotion.maxUses) {
+      throw new Error(`Coupon ${promotion.code} has reached its usage limit`);
+    }
+  }
+
+  if (promotion.maxUsesPerCustomer !== null) {
+    const customerUses = await client.orderDiscount.count({
+      where: {
+        promotionId,
+        order: { userId, orderStatus: { not: OrderStatus.CANCELLED } },
+      },
+    });
+
+    if (customerUses >= promotion.maxUsesPerCustomer) {
+      throw new Error(`Coupon ${promotion.code} has already been used the maximum number of times on this account`);
+    }
+  }
+}
+
+/**
+ * Apply a coupon code to order items priced in the order's currency
+ */
+export async function applyPromotion(
+  code: string,
+  userId: string,
+  items: DiscountableItem[],
+  exchangeRate: number
+): Promise<AppliedPromotion> {
+  const promotion = await db.promotion.findUnique({
+    where: { code: code.toUpperCase() },
+  });
+
+  if (!promotion || !promotion.active) {
+    throw new Error(`Coupon ${code} is not valid`);
+  }
+
+  const now = new Date();
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new Error(`Coupon ${code} is not active yet`);
+  }
+
+  if (promotion.endsAt && promotion.endsAt <= now) {
+    throw new Error(`Coupon ${code} has expired`);
+  }
+
+  await checkPromotionUsage(db, promotion.id, userId);
+
+  if (promotion.minSpendCents !== null) {
+    const subtotalCents = items.reduce((sum, item) => sum + item.subtotalCents, 0);
+    const minSpendCents = convertMinorUnits(promotion.minSpendCents, exchangeRate);
+
+    if (subtotalCents < minSpendCents) {
+      throw new Error(`Coupon ${code} requires a minimum spend of ${formatMinorUnits(minSpendCents)}`);
+    }
+  }
+
+  const eligible = items.map((item) => !promotion.genre || item.genre === promotion.genre);
+  const itemDiscounts = calculateItemDiscounts(promotion, items, eligible, exchangeRate);
+  const amountCents = itemDiscounts.reduce((sum, discount) => sum + discount, 0);
+
+  if (amountCents === 0) {
+    throw new Error(`Coupon ${code} does not apply to the items in this order`);
+  }
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    description: describePromotion(promotion, amountCents),
+    amountCents,
+    itemDiscounts,
+  };
+}
+
+/**
+ * List all promotions, newest first
+ */
+export async function getPromotions(): Promise<Promotion[]> {
+  const prismaPromotions = await db.promotion.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: PROMOTION_INCLUDE,
+  });
+
+  return prismaPromotions.map(transformPromotion);
+}
+
+/**
+ * Get a single promotion by ID
+ */
+export async function getPromotionById(id: string): Promise<Promotion | null> {
+  const prismaPromotion = await db.promotion.findUnique({
+    where: { id },
+    include: PROMOTION_INCLUDE,
+  });
+
+  if (!prismaPromotion) {
+    return null;
+  }
+
+  return transformPromotion(prismaPromotion);
+}
+
+/**
+ * Create a new promotion
+ */
+export async function createPromotion(dto: CreatePromotionDTO): Promise<Promotion> {
+  const code = dto.code.toUpperCase();
+
+  const existingPromotion = await db.promotion.findUnique({
+    where: { code },
+  });
+
+  if (existingPromotion) {
+    throw new Error('A promotion with this code already exists');
+  }
+
+  const data: Prisma.PromotionCreateInput = {
+    code,
+    description: dto.description,
+    type: dto.type,
+    percentOff: dto.percentOff,
+    amountOffCents: parseOptionalAmount('amountOff', dto.amountOff),
+    buyQuantity: dto.buyQuantity,
+    getQuantity: dto.getQuantity,
+    genre: dto.genre,
+    minSpendCents: parseOptionalAmount('minSpend', dto.minSpend),
+    maxUses: dto.maxUses,
+    maxUsesPerCustomer: dto.maxUsesPerCustomer,
+    startsAt: dto.startsAt,
+    endsAt: dto.endsAt,
+    active: dto.active,
+  };
+
+  validatePromotion(data);
+
+  const prismaPromotion = await db.promotion.create({
+    data,
+    include: PROMOTION_INCLUDE,
+  });
+
+  return transformPromotion(prismaPromotion);
+}
+
+/**
+ * Update an existing promotion; null clears an optional field
+ */
+export async function updatePromotion(id: string, dto: UpdatePromotionDTO): Promise<Promotion> {
+  const existingPromotion = await db.promotion.findUnique({
+    where: { id },
+  });
+
+  if (!existingPromotion) {
+    throw new Error('Promotion not found');
+  }
+
+  const code = dto.code?.toUpperCase();
+  if (code && code !== existingPromotion.code) {
+    const promotionWithCode = await db.promotion.findUnique({
+      where: { code },
+    });
+
+    if (promotionWithCode) {
+      throw new Error('A promotion with this code already exists');
+    }
+  }
+
+  const updateData: Prisma.PromotionUpdateInput = {};
+
+  if (code !== undefined) updateData.code = code;
+  if (dto.description !== undefined) updateData.description = dto.description;
+  if (dto.type !== undefined) updateData.type = dto.type;
+  if (dto.percentOff !== undefined) updateData.percentOff = dto.percentOff;
+  if (dto.amountOff !== undefined) updateData.amountOffCents = parseOptionalAmount('amountOff', dto.amountOff);
+  if (dto.buyQuantity !== undefined) updateData.buyQuantity = dto.buyQuantity;
+  if (dto.getQuantity !== undefined) updateData.getQuantity = dto.getQuantity;
+  if (dto.genre !== undefined) updateData.genre = dto.genre;
+  if (dto.minSpend !== undefined) updateData.minSpendCents = parseOptionalAmount('minSpend', dto.minSpend);
+  if (dto.maxUses !== undefined) updateData.maxUses = dto.maxUses;
+  if (dto.maxUsesPerCustomer !== undefined) updateData.maxUsesPerCustomer = dto.maxUsesPerCustomer;
+  if (dto.startsAt !== undefined) updateData.startsAt = dto.startsAt;
+  if (dto.endsAt !== undefined) updateData.endsAt = dto.endsAt;
+  if (dto.active !== undefined) updateData.active = dto.active;
+
+  // Validate the promotion as it will be after the update
+  validatePromotion({ ...existingPromotion, ...updateData } as Omit<Prisma.PromotionCreateInput, 'code'>);
+
+  const prismaPromotion = await db.promotion.update({
+    where: { id },
+    data: updateData,
+    include: PROMOTION_INCLUDE,
+  });
+
+  return transformPromotion(prismaPromotion);
+}
+
+/**
+ * Delete a promotion; orders keep their discount lines
+ */
+export async function deletePromotion(id: string): Promise<void> {
+  const existingPromotion = await db.promotion.findUnique({
+    where: { id },
+  });
+
+  if (!existingPromotion) {
+    throw new Error('Promotion not found');
+  }
+
+  await db.promotion.delete({
+    where: { id },
+  });
+}
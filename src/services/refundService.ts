@@ -0,0 +1,214 @@
+// Refund Service - Business Logic for Order Refunds
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getPaymentProvider } from '@/lib/payment';
+import { toMinorUnits, formatMinorUnits } from '@/lib/money';
+import { Refund, CreateRefundDTO, RefundResponse } from '@/types/api';
+
+/**
+ * Transform Prisma Refund entity (with items) to API Refund type
+ */
+function transformRefund(prismaRefund: any): Refund {
+  return {
+    id: prismaRefund.id,
+    orderId: prismaRefund.orderId,
+    paymentId: prismaRefund.paymentId,
+    providerRefundId: prismaRefund.providerRefundId,
+    amount: formatMinorUnits(prismaRefund.amountCents),
+    currency: prismaRefund.currency,
+    reason: prismaRefund.reason,
+    status: prismaRefund.status,
+    failureReason: prismaRefund.failureReason,
+    createdById: prismaRefund.createdById,
+    items: (prismaRefund.items || []).map((item: any) => ({
+      orderItemId: item.orderItemId,
+      quantity: item.quantity,
+      amount: formatMinorUnits(item.amountCents),
+    })),
+    createdAt: prismaRefund.createdAt,
+    updatedAt: prismaRefund.updatedAt,
+  };
+}
+
+/**
+ * List refunds for an order, oldest first
+ */
+export async function getRefunds(orderId: string): Promise<Refund[]> {
+  const prismaRefunds = await db.refund.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' },
+    include: { items: true },
+  });
+
+  return prismaRefunds.map(transformRefund);
+}
+
+/**
+ * Refund (part of) a paid order through the payment provider
+ * Refunds of specific items are priced at their share of the item's gross total; without items or
+ * an amount the remaining refundable balance is refunded
+ */
+export async function createRefund(orderId: string, dto: CreateRefundDTO, actorId: string | null): Promise<Refund> {
+  const existingOrder = await db.order.findUnique({
+    where: { id: orderId },
+    include: {
+      orderItems: true,
+      payments: {
+        where: { status: PaymentStatus.PAID },
+      },
+      refunds: {
+        where: { status: { in: [RefundStatus.PENDING, RefundStatus.SUCCEEDED] } },
+        include: { items: true },
+      },
+    },
+  });
+
+  if (!existingOrder) {
+    throw new Error('Order not found');
+  }
+
+  const payment = existingOrder.payments[0];
+  if (
+    !payment ||
+    (existingOrder.paymentStatus !== PaymentStatus.PAID &&
+      existingOrder.paymentStatus !== PaymentStatus.PARTIALLY_REFUNDED)
+  ) {
+    throw new Error('Only paid orders can be refunded');
+  }
+
+  const refundedCents = existingOrder.refunds.reduce((sum, refund) => sum + refund.amountCents, 0);
+  const refundableCents = existingOrder.totalPriceCents - refundedCents;
+
+  // One line per order item, so the checks below see the whole quantity requested
+  const orderItemIds = (dto.items || []).map((item) => item.orderItemId);
+  if (new Set(orderItemIds).size !== orderItemIds.length) {
+    throw new Error('Each order item may only be listed once');
+  }
+
+  // Price item refunds (including their tax), never refunding more units than were ordered
+  const refundItems: { orderItemId: string; quantity: number; amountCents: number }[] = [];
+  for (const item of dto.items || []) {
+    const orderItem = existingOrder.orderItems.find((orderItem) => orderItem.id === item.orderItemId);
+    if (!orderItem) {
+      throw new Error(`Order item ${item.orderItemId} does not belong to this order`);
+    }
+
+    const refundedQuantity = existingOrder.refunds
+      .flatMap((refund) => refund.items)
+      .filter((refundItem) => refundItem.orderItemId === orderItem.id)
+      .reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+
+    if (item.quantity > orderItem.quantity - refundedQuantity) {
+      throw new Error(
+        `Refund quantity for order item ${orderItem.id} exceeds the ${orderItem.quantity - refundedQuantity} not yet refunded`
+      );
+    }
+
+    refundItems.push({
+      orderItemId: orderItem.id,
+      quantity: item.quantity,
+      // Difference of cumulative shares, so refunding every unit returns exactly the item total
+      amountCents:
+        Math.round((orderItem.totalCents * (refundedQuantity + item.quantity)) / orderItem.quantity) -
+        Math.round((orderItem.totalCents * refundedQuantity) / orderItem.quantity),
+    });
+  }
+
+  const amountCents = refundItems.length > 0
+    ? refundItems.reduce((sum, item) => sum + item.amountCents, 0)
+    : dto.amount !== undefined ? toMinorUnits(dto.amount) : refundableCents;
+
+  if (amountCents === null) {
+    throw new Error('Refund amount must be a decimal amount with at most 2 decimal places');
+  }
+
+  if (amountCents <= 0) {
+    throw new Error('Refund amount must be greater than zero');
+  }
+
+  if (amountCents > refundableCents) {
+    throw new Error(`Refund amount exceeds the refundable balance of ${formatMinorUnits(refundableCents)}`);
+  }
+
+  // Reserve the refund first; re-checking the total inside the transaction
+  // keeps concurrent refunds from exceeding the order total
+  const pendingRefund = await db.$transaction(async (tx) => {
+    const refund = await tx.refund.create({
+      data: {
+        orderId,
+        paymentId: payment.id,
+        amountCents,
+        currency: payment.currency,
+        reason: dto.reason || null,
+        status: RefundStatus.PENDING,
+        createdById: actorId,
+        items: {
+          create: refundItems,
+        },
+      },
+    });
+
+    const { _sum } = await tx.refund.aggregate({
+      where: { orderId, status: { in: [RefundStatus.PENDING, RefundStatus.SUCCEEDED] } },
+      _sum: { amountCents: true },
+    });
+
+    if ((_sum.amountCents || 0) > existingOrder.totalPriceCents) {
+      throw new Error(`Refund amount exceeds the refundable balance of ${formatMinorUnits(refundableCents)}`);
+    }
+
+    return refund;
+  });
+
+  let response: RefundResponse;
+  try {
+    response = await getPaymentProvider().refund({
+      paymentId: payment.providerPaymentId!,
+      amount: amountCents,
+      currency: payment.currency,
+      reason: dto.reason,
+    });
+  } catch (error: any) {
+    response = { success: false, message: error.message || 'Payment provider error' };
+  }
+
+  if (!response.success) {
+    await db.refund.update({
+      where: { id: pendingRefund.id },
+      data: {
+        status: RefundStatus.FAILED,
+        failureReason: response.message || 'Refund failed',
+      },
+    });
+    throw new Error(`Payment provider could not process the refund: ${response.message || 'Refund failed'}`);
+  }
+
+  const prismaRefund = await db.$transaction(async (tx) => {
+    const refund = await tx.refund.update({
+      where: { id: pendingRefund.id },
+      data: {
+        status: RefundStatus.SUCCEEDED,
+        providerRefundId: response.refundId || null,
+      },
+      include: { items: true },
+    });
+
+    const { _sum } = await tx.refund.aggregate({
+      where: { orderId, status: RefundStatus.SUCCEEDED },
+      _sum: { amountCents: true },
+    });
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        paymentStatus: (_sum.amountCents || 0) >= existingOrder.totalPriceCents
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+
+    return refund;
+  });
+
+  return transformRefund(prismaRefund);
+}
@@ -0,0 +1,231 @@
+// Reservation Service - Time-Limited Stock Holds for Checkout
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { StockReservation, CreateOrderItemDTO } from '@/types/api';
+
+// How long reserved stock is held before it is released
+const RESERVATION_TTL_MINUTES = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '15');
+
+// Copies of one book a customer may hold
+const MAX_RESERVED_QUANTITY_PER_BOOK = parseInt(process.env.STOCK_RESERVATION_MAX_PER_BOOK || '10');
+
+// Times a hold may be renewed back to back. Reserving again within one TTL of the last
+// hold ending counts as a renewal, so stock cannot be held indefinitely.
+const MAX_RESERVATION_RENEWALS = parseInt(process.env.STOCK_RESERVATION_MAX_RENEWALS || '3');
+
+// How often the sweeper deletes expired reservations
+const RESERVATION_SWEEP_INTERVAL_SECONDS = parseInt(process.env.RESERVATION_SWEEP_INTERVAL_SECONDS || '60');
+
+/**
+ * Transform Prisma StockReservation entity (with items) to API type
+ */
+function transformReservation(prismaReservation: any): StockReservation {
+  return {
+    id: prismaReservation.id,
+    userId: prismaReservation.userId,
+    items: prismaReservation.items.map((item: any) => ({
+      bookId: item.bookId,
+      quantity: item.quantity,
+    })),
+    expiresAt: prismaReservation.expiresAt,
+    createdAt: prismaReservation.createdAt,
+  };
+}
+
+/**
+ * Units of a book held by unexpired reservations, optionally ignoring one customer's
+ * Pass a transaction client to count while the caller is writing
+ */
+export async function getReservedQuantity(
+  bookId: string,
+  excludeUserId?: string,
+  client: Prisma.TransactionClient = db
+): Promise<number> {
+  const result = await client.stockReservationItem.aggregate({
+    where: {
+      bookId,
+      reservation: {
+        expiresAt: { gt: new Date() },
+        ...(excludeUserId ? { userId: { not: excludeUserId } } : {}),
+      },
+    },
+    _sum: { quantity: true },
+  });
+
+  return result._sum.quantity ?? 0;
+}
+
+/**
+ * Get a customer's unexpired reservation
+ */
+export async function getReservation(userId: string): Promise<StockReservation | null> {
+  const prismaReservation = await db.stockReservation.findFirst({
+    where: { userId, expiresAt: { gt: new Date() } },
+    include: { items: true },
+  });
+
+  if (!prismaReservation) {
+    return null;
+  }
+
+  return transformReservation(prismaReservation);
+}
+
+/**
+ * Hold stock for a customer's checkout, replacing any reservation they already have
+ * Items default to the customer's cart
+ */
+export async function reserveStock(userId: string, items?: CreateOrderItemDTO[]): Promise<StockReservation> {
+  // Only verified accounts may hold stock, as only they may order it
+  const customer = await db.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true },
+  });
+
+  if (!customer) {
+    throw new Error('User not found');
+  }
+
+  if (!customer.emailVerifiedAt) {
+    throw new Error('Email address must be verified before reserving stock');
+  }
+
+  if (!items) {
+    const cart = await db.cart.findUnique({
+      where: { userId },
+      include: { items: true },
+    });
+    items = cart?.items.map((item) => ({ bookId: item.bookId, quantity: item.quantity })) || [];
+  }
+
+  if (items.length === 0) {
+    throw new Error('Nothing to reserve');
+  }
+
+  // One line per book
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.bookId, (quantities.get(item.bookId) || 0) + item.quantity);
+  }
+
+  for (const quantity of quantities.values()) {
+    if (quantity > MAX_RESERVED_QUANTITY_PER_BOOK) {
+      throw new Error(`At most ${MAX_RESERVED_QUANTITY_PER_BOOK} copies of a book can be reserved`);
+    }
+  }
+
+  const prismaReservation = await db.$transaction(async (tx) => {
+    const previous = await tx.stockReservation.findUnique({
+      where: { userId },
+    });
+
+    const ttlMs = RESERVATION_TTL_MINUTES * 60 * 1000;
+    const renewals = previous && previous.expiresAt.getTime() > Date.now() - ttlMs ? previous.renewals + 1 : 0;
+    if (renewals > MAX_RESERVATION_RENEWALS) {
+      throw new Error(
+        `Reservation cannot be renewed more than ${MAX_RESERVATION_RENEWALS} times; try again in ${RESERVATION_TTL_MINUTES} minutes`
+      );
+    }
+
+    // Release the customer's previous hold first so it does not count against them
+    await tx.stockReservation.deleteMany({
+      where: { userId },
+    });
+
+    for (const [bookId, quantity] of quantities) {
+      const book = await tx.book.findUnique({
+        where: { id: bookId },
+        select: { title: true, stockQuantity: true },
+      });
+
+      if (!book) {
+        throw new Error(`Book with ID ${bookId} not found`);
+      }
+
+      const available = book.stockQuantity - (await getReservedQuantity(bookId, userId, tx));
+      if (available < quantity) {
+        throw new Error(
+          `Insufficient stock for book "${book.title}". Available: ${Math.max(available, 0)}, Requested: ${quantity}`
+        );
+      }
+    }
+
+    return tx.stockReservation.create({
+      data: {
+        userId,
+        expiresAt: new Date(Date.now() + ttlMs),
+        renewals,
+        items: {
+          create: Array.from(quantities, ([bookId, quantity]) => ({ bookId, quantity })),
+        },
+      },
+      include: { items: true },
+    });
+  });
+
+  return transformReservation(prismaReservation);
+}
+
+/**
+ * Release a customer's reservation
+ * The row is expired rather than deleted so releasing does not reset the renewal count.
+ */
+export async function releaseReservation(userId: string): Promise<void> {
+  const now = new Date();
+  const { count } = await db.stockReservation.updateMany({
+    where: { userId, expiresAt: { gt: now } },
+    data: { expiresAt: now },
+  });
+
+  if (count === 0) {
+    throw new Error('Reservation not found');
+  }
+}
+
+/**
+ * Drop a customer's reservation once their order has decremented the stock
+ * Runs inside the order transaction
+ */
+export async function consumeReservation(client: Prisma.TransactionClient, userId: string): Promise<void> {
+  await client.stockReservation.deleteMany({
+    where: { userId },
+  });
+}
+
+/**
+ * Delete reservations that expired over one TTL ago (and so no longer count towards
+ * renewals); returns how many were deleted
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const { count } = await db.stockReservation.deleteMany({
+    where: { expiresAt: { lte: new Date(Date.now() - RESERVATION_TTL_MINUTES * 60 * 1000) } },
+  });
+
+  return count;
+}
+
+let sweeper: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Periodically release expired reservations (once per server process)
+ * Availability already ignores expired reservations; the sweeper keeps the table small.
+ */
+export function startReservationSweeper(): void {
+  if (sweeper) {
+    return;
+  }
+
+  sweeper = setInterval(async () => {
+    try {
+      const count = await releaseExpiredReservations();
+      if (count > 0) {
+        console.log(`Deleted ${count} expired stock reservation(s)`);
+      }
+    } catch (error) {
+      console.error('Error releasing expired stock reservations:', error);
+    }
+  }, RESERVATION_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // Do not keep the process alive just for the sweeper
+  sweeper.unref();
+}
@@ -0,0 +1,305 @@
+// Return Service - Business Logic for Customer Returns (RMA)
+import { Prisma, OrderStatus, ReturnStatus, ReturnDisposition } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ReturnRequest, CreateReturnDTO, UpdateReturnDTO } from '@/types/api';
+import { createRefund } from './refundService';
+
+// Allowed return status transitions; REJECTED, RECEIVED and CANCELLED are final
+const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  [ReturnStatus.REQUESTED]: [ReturnStatus.APPROVED, ReturnStatus.REJECTED, ReturnStatus.CANCELLED],
+  [ReturnStatus.APPROVED]: [ReturnStatus.RECEIVED],
+  [ReturnStatus.REJECTED]: [],
+  [ReturnStatus.RECEIVED]: [],
+  [ReturnStatus.CANCELLED]: [],
+};
+
+// Returns that still hold their items (count against the quantity that can be returned)
+const ACTIVE_RETURN_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.RECEIVED,
+];
+
+/**
+ * Transform Prisma ReturnRequest entity (with items and optional history) to API type
+ */
+function transformReturn(prismaReturn: any): ReturnRequest {
+  return {
+    id: prismaReturn.id,
+    orderId: prismaReturn.orderId,
+    userId: prismaReturn.userId,
+    status: prismaReturn.status,
+    reason: prismaReturn.reason,
+    refundId: prismaReturn.refundId,
+    items: prismaReturn.items.map((item: any) => ({
+      id: item.id,
+      orderItemId: item.orderItemId,
+      quantity: item.quantity,
+      disposition: item.disposition,
+    })),
+    history: prismaReturn.history?.map((entry: any) => ({
+      id: entry.id,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      actorId: entry.actorId,
+      note: entry.note,
+      createdAt: entry.createdAt,
+    })),
+    createdAt: prismaReturn.createdAt,
+    updatedAt: prismaReturn.updatedAt,
+  };
+}
+
+/**
+ * List returns for an order, newest first
+ */
+export async function getReturns(orderId: string): Promise<ReturnRequest[]> {
+  const prismaReturns = await db.returnRequest.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'desc' },
+    include: { items: true },
+  });
+
+  return prismaReturns.map(transformReturn);
+}
+
+/**
+ * Get a single return of an order, including its status history
+ */
+export async function getReturnById(orderId: string, returnId: string): Promise<ReturnRequest | null> {
+  const prismaReturn = await db.returnRequest.findFirst({
+    where: { id: returnId, orderId },
+    include: {
+      items: true,
+      history: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!prismaReturn) {
+    return null;
+  }
+
+  return transformReturn(prismaReturn);
+}
+
+/**
+ * Open a return for items of a delivered order (order owner only)
+ */
+export async function createReturn(orderId: string, userId: string, dto: CreateReturnDTO): Promise<ReturnRequest> {
+  const existingOrder = await db.order.findUnique({
+    where: { id: orderId },
+    include: {
+      orderItems: true,
+      returns: {
+        where: { status: { in: ACTIVE_RETURN_STATUSES } },
+        include: { items: true },
+      },
+    },
+  });
+
+  if (!existingOrder) {
+    throw new Error('Order not found');
+  }
+
+  if (existingOrder.userId !== userId) {
+    throw new Error('You can only return items from your own orders');
+  }
+
+  if (existingOrder.orderStatus !== OrderStatus.DELIVERED) {
+    throw new Error('Only delivered orders can be returned');
+  }
+
+  // One line per order item, so the checks below see the whole quantity requested
+  if (new Set(dto.items.map((item) => item.orderItemId)).size !== dto.items.length) {
+    throw new Error('Each order item may only be listed once');
+  }
+
+  // Never return more units than were ordered, across all open returns
+  for (const item of dto.items) {
+    const orderItem = existingOrder.orderItems.find((orderItem) => orderItem.id === item.orderItemId);
+    if (!orderItem) {
+      throw new Error(`Order item ${item.orderItemId} does not belong to this order`);
+    }
+
+    const returnedQuantity = existingOrder.returns
+      .flatMap((returnRequest) => returnRequest.items)
+      .filter((returnItem) => returnItem.orderItemId === orderItem.id)
+      .reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+
+    if (item.quantity > orderItem.quantity - returnedQuantity) {
+      throw new Error(
+        `Return quantity for order item ${orderItem.id} exceeds the ${orderItem.quantity - returnedQuantity} not yet returned`
+      );
+    }
+  }
+
+  const prismaReturn = await db.returnRequest.create({
+    data: {
+      orderId,
+      userId,
+      reason: dto.reason,
+      items: {
+        create: dto.items.map((item) => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+        })),
+      },
+      history: {
+        create: {
+          fromStatus: null,
+          toStatus: ReturnStatus.REQUESTED,
+          actorId: userId,
+        },
+      },
+    },
+    include: {
+      items: true,
+      history: true,
+    },
+  });
+
+  return transformReturn(prismaReturn);
+}
+
+/**
+ * Move a return to a new status, guarded on its current one so concurrent updates
+ * cannot skip a transition or apply it twice
+ */
+async function claimStatusChange(
+  returnId: string,
+  fromStatus: ReturnStatus,
+  toStatus: ReturnStatus,
+  client: Prisma.TransactionClient = db
+): Promise<void> {
+  const { count } = await client.returnRequest.updateMany({
+    where: { id: returnId, status: fromStatus },
+    data: { status: toStatus },
+  });
+
+  if (count === 0) {
+    throw new Error('Cannot change return status: the return was updated concurrently');
+  }
+}
+
+/**
+ * Move a return through its lifecycle
+ * - APPROVED refunds the returned items; REJECTED closes the request (orders:returns)
+ * - RECEIVED puts items back into stock or the damaged bucket (orders:returns)
+ * - CANCELLED withdraws a pending request (return owner)
+ */
+export async function updateReturnStatus(
+  orderId: string,
+  returnId: string,
+  dto: UpdateReturnDTO,
+  userId: string,
+  canManageReturns: boolean
+): Promise<ReturnRequest> {
+  const existingReturn = await db.returnRequest.findFirst({
+    where: { id: returnId, orderId },
+    include: {
+      items: {
+        include: { orderItem: true },
+      },
+    },
+  });
+
+  if (!existingReturn) {
+    throw new Error('Return not found');
+  }
+
+  if (dto.status === ReturnStatus.CANCELLED) {
+    if (existingReturn.userId !== userId) {
+      throw new Error('You can only cancel your own returns');
+    }
+  } else if (!canManageReturns) {
+    throw new Error('Missing permission orders:returns');
+  }
+
+  if (!RETURN_STATUS_TRANSITIONS[existingReturn.status].includes(dto.status)) {
+    throw new Error(`Cannot change return status from ${existingReturn.status} to ${dto.status}`);
+  }
+
+  // Approval claims the transition before refunding, so concurrent approvals refund only once
+  let refundId: string | undefined;
+  if (dto.status === ReturnStatus.APPROVED) {
+    await claimStatusChange(returnId, existingReturn.status, dto.status);
+
+    try {
+      const refund = await createRefund(
+        orderId,
+        {
+          items: existingReturn.items.map((item) => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+          })),
+          reason: `Return ${existingReturn.id}: ${existingReturn.reason}`,
+        },
+        userId
+      );
+      refundId = refund.id;
+    } catch (error) {
+      // Release the claim so the approval can be retried
+      await db.returnRequest.updateMany({
+        where: { id: returnId, status: dto.status, refundId: null },
+        data: { status: existingReturn.status },
+      });
+      throw error;
+    }
+  }
+
+  const prismaReturn = await db.$transaction(async (tx) => {
+    if (refundId) {
+      await tx.returnRequest.update({
+        where: { id: returnId },
+        data: { refundId },
+      });
+    } else {
+      await claimStatusChange(returnId, existingReturn.status, dto.status, tx);
+    }
+
+    // Received items go back into stock unless marked as damaged
+    if (dto.status === ReturnStatus.RECEIVED) {
+      for (const item of existingReturn.items) {
+        const disposition = dto.dispositions?.find(
+          (entry) => entry.orderItemId === item.orderItemId
+        )?.disposition || ReturnDisposition.RESTOCK;
+
+        await tx.returnItem.update({
+          where: { id: item.id },
+          data: { disposition },
+        });
+
+        await tx.book.update({
+          where: { id: item.orderItem.bookId },
+          data: disposition === ReturnDisposition.RESTOCK
+            ? { stockQuantity: { increment: item.quantity } }
+            : { damagedQuantity: { increment: item.quantity } },
+        });
+      }
+    }
+
+    await tx.returnStatusHistory.create({
+      data: {
+        returnRequestId: returnId,
+        fromStatus: existingReturn.status,
+        toStatus: dto.status,
+        actorId: userId,
+        note: dto.note || null,
+      },
+    });
+
+    return tx.returnRequest.findUniqueOrThrow({
+      where: { id: returnId },
+      include: {
+        items: true,
+        history: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  });
+
+  return transformReturn(prismaReturn);
+}
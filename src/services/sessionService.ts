@@ -0,0 +1,171 @@
+// Session Service - Business Logic for Refresh Tokens and Session Revocation
+import { randomUUID } from 'crypto';
+import { db } from '@/lib/db';
+import { AuthResponse } from '@/types/api';
+import {
+  generateToken,
+  generateOpaqueToken,
+  hashToken,
+  getTokenExpiresIn,
+  getRefreshTokenExpiresIn,
+} from '@/lib/auth';
+
+interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  role: AuthResponse['user']['role'];
+}
+
+/**
+ * Persist a new refresh token for a session family and return the raw token
+ */
+async function issueRefreshToken(userId: string, familyId: string): Promise<string> {
+  const token = generateOpaqueToken();
+
+  await db.refreshToken.create({
+    data: {
+      userId,
+      familyId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + getRefreshTokenExpiresIn() * 1000),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Build the auth response (access + refresh token) for a session
+ */
+async function buildAuthResponse(user: SessionUser, familyId: string, refreshToken: string): Promise<AuthResponse> {
+  const token = await generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: familyId,
+  });
+
+  return {
+    token,
+    tokenType: 'Bearer',
+    expiresIn: getTokenExpiresIn(),
+    refreshToken,
+    refreshExpiresIn: getRefreshTokenExpiresIn(),
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    },
+  };
+}
+
+/**
+ * Start a new session for a user (called on login and registration)
+ */
+export async function createSession(user: SessionUser): Promise<AuthResponse> {
+  const familyId = randomUUID();
+  const token = await issueRefreshToken(user.id, familyId);
+
+  return buildAuthResponse(user, familyId, token);
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair.
+ * The presented token is revoked; presenting an already-rotated token is
+ * treated as theft and revokes the whole session family.
+ */
+export async function rotateRefreshToken(rawToken: string): Promise<AuthResponse> {
+  const existing = await db.refreshToken.findUnique({
+    where: { tokenHash: hashToken(rawToken) },
+    include: { user: true },
+  });
+
+  if (!existing) {
+    throw new Error('Invalid refresh token');
+  }
+
+  if (existing.revokedAt) {
+    // A rotated token was replayed: someone else holds the family
+    if (existing.replacedById) {
+      await revokeSession(existing.familyId);
+      throw new Error('Refresh token reuse detected');
+    }
+    throw new Error('Refresh token has been revoked');
+  }
+
+  if (existing.expiresAt <= new Date()) {
+    throw new Error('Refresh token has expired');
+  }
+
+  if (existing.user.disabledAt) {
+    throw new Error('Refresh token has been revoked');
+  }
+
+  const token = generateOpaqueToken();
+
+  await db.$transaction(async (tx) => {
+    const replacement = await tx.refreshToken.create({
+      data: {
+        userId: existing.userId,
+        familyId: existing.familyId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + getRefreshTokenExpiresIn() * 1000),
+      },
+    });
+
+    // Guard against two concurrent rotations of the same token
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: existing.id, revokedAt: null },
+      data: { revokedAt: new Date(), replacedById: replacement.id },
+    });
+
+    if (count === 0) {
+      throw new Error('Refresh token has been revoked');
+    }
+  });
+
+  return buildAuthResponse(existing.user, existing.familyId, token);
+}
+
+/**
+ * Revoke every refresh token in a session family
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await db.refreshToken.updateMany({
+    where: { familyId: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every session belonging to a user, optionally keeping one alive
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string): Promise<void> {
+  await db.refreshToken.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { familyId: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Check whether a session still has a live refresh token and an enabled user
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const activeToken = await db.refreshToken.findFirst({
+    where: {
+      familyId: sessionId,
+      userId,
+      revokedAt: null,
+      user: { disabledAt: null },
+    },
+    select: { id: true },
+  });
+
+  return activeToken !== null;
+}
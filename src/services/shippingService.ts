@@ -0,0 +1,149 @@
+// Shipping Service - Shipping Methods and Rate Calculation
+import { ShippingRateBasis } from '@prisma/client';
+import { db } from '@/lib/db';
+import { DEFAULT_CURRENCY, convertMinorUnits, formatMinorUnits, toMinorUnits } from '@/lib/money';
+import { CreateOrderItemDTO, ShipmentMeasure, ShippingQuote, ShippingQuoteResponse } from '@/types/api';
+import { getExchangeRate } from './exchangeRateService';
+
+// Method used for orders that do not choose one
+export const DEFAULT_SHIPPING_METHOD = 'standard';
+
+// Weight assumed for books that do not have one
+const DEFAULT_BOOK_WEIGHT_GRAMS = parseInt(process.env.DEFAULT_BOOK_WEIGHT_GRAMS || '500');
+
+type ShippingDestination = { country: string; region?: string | null };
+
+type ShippingRateRow = { region: string; minQuantity: number; rateCents: number };
+
+/**
+ * Regions whose rate tables can apply to a destination, most specific first
+ */
+function getDestinationRegions(destination: ShippingDestination): string[] {
+  return destination.region
+    ? [`${destination.country}-${destination.region}`, destination.country]
+    : [destination.country];
+}
+
+/**
+ * Pick the rate for a shipment from a method's rate tables; null if it does not deliver there
+ * The exact region's table wins over its country's. Within a table, the rate with the
+ * highest minQuantity that the shipment reaches applies.
+ */
+function findRate(
+  rates: ShippingRateRow[],
+  rateBasis: ShippingRateBasis,
+  regions: string[],
+  measure: ShipmentMeasure
+): ShippingRateRow | null {
+  const quantity = rateBasis === ShippingRateBasis.WEIGHT ? measure.weightGrams : measure.itemCount;
+  const region = regions.find((region) => rates.some((rate) => rate.region === region));
+
+  const applicableRates = rates
+    .filter((rate) => rate.region === region && rate.minQuantity <= quantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity);
+
+  return applicableRates[0] ?? null;
+}
+
+/**
+ * Count the items and total the weight of a shipment
+ */
+export async function measureShipment(items: CreateOrderItemDTO[]): Promise<ShipmentMeasure> {
+  const books = await db.book.findMany({
+    where: { id: { in: items.map((item) => item.bookId) } },
+    select: { id: true, weightGrams: true },
+  });
+  const weights = new Map(books.map((book) => [book.id, book.weightGrams ?? DEFAULT_BOOK_WEIGHT_GRAMS]));
+
+  let itemCount = 0;
+  let weightGrams = 0;
+
+  for (const item of items) {
+    const weight = weights.get(item.bookId);
+    if (weight === undefined) {
+      throw new Error(`Book with ID ${item.bookId} not found`);
+    }
+
+    itemCount += item.quantity;
+    weightGrams += weight * item.quantity;
+  }
+
+  return { itemCount, weightGrams };
+}
+
+/**
+ * Quote every active shipping method that delivers to a destination, cheapest first
+ */
+export async function getShippingQuotes(
+  items: CreateOrderItemDTO[],
+  destination: ShippingDestination,
+  currency: string = DEFAULT_CURRENCY
+): Promise<ShippingQuoteResponse> {
+  const exchangeRate = await getExchangeRate(currency);
+  const measure = await measureShipment(items);
+  const regions = getDestinationRegions(destination);
+
+  const methods = await db.shippingMethod.findMany({
+    where: { active: true },
+    include: {
+      rates: {
+        where: { region: { in: regions } },
+      },
+    },
+  });
+
+  const quotes: ShippingQuote[] = [];
+  for (const method of methods) {
+    const rate = findRate(method.rates, method.rateBasis, regions, measure);
+    if (!rate) {
+      continue;
+    }
+
+    quotes.push({
+      method: method.code,
+      name: method.name,
+      description: method.description,
+      rateBasis: method.rateBasis,
+      cost: formatMinorUnits(convertMinorUnits(rate.rateCents, exchangeRate)),
+    });
+  }
+
+  return {
+    currency,
+    region: regions[0],
+    ...measure,
+    quotes: quotes.sort((a, b) => toMinorUnits(a.cost)! - toMinorUnits(b.cost)!),
+  };
+}
+
+/**
+ * Price a shipping method for an order's destination and items, in the order's currency
+ */
+export async function calculateShipping(
+  methodCode: string,
+  destination: ShippingDestination,
+  items: CreateOrderItemDTO[],
+  exchangeRate: number
+): Promise<number> {
+  const regions = getDestinationRegions(destination);
+
+  const method = await db.shippingMethod.findUnique({
+    where: { code: methodCode },
+    include: {
+      rates: {
+        where: { region: { in: regions } },
+      },
+    },
+  });
+
+  if (!method || !method.active) {
+    throw new Error(`Unknown shipping method "${methodCode}"`);
+  }
+
+  const rate = findRate(method.rates, method.rateBasis, regions, await measureShipment(items));
+  if (!rate) {
+    throw new Error(`The ${method.name} shipping method does not deliver to ${regions[0]}`);
+  }
+
+  return convertMinorUnits(rate.rateCents, exchangeRate);
+}
@@ -0,0 +1,50 @@
+// Tax Service - Tax Calculation for Orders
+import { db } from '@/lib/db';
+import { TaxableLine, TaxedLine } from '@/types/api';
+
+// ISO 3166 country ("DE") or subdivision ("US-CA")
+const TAX_REGION_PATTERN = /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/;
+
+/**
+ * Check that a value is an ISO 3166 country or subdivision code
+ */
+export function isTaxRegion(value: unknown): value is string {
+  return typeof value === 'string' && TAX_REGION_PATTERN.test(value);
+}
+
+/**
+ * Tax region for a shipping destination: its subdivision ("US-CA") when the
+ * address has a region code, else its country ("US")
+ */
+export function getTaxRegion(country: string, region?: string | null): string {
+  const subdivision = region ? `${country}-${region}` : null;
+  return subdivision && isTaxRegion(subdivision) ? subdivision : country;
+}
+
+/**
+ * Calculate tax for each line in a region
+ * Rules for the exact region win over rules for its country; tax classes
+ * without a rule are not taxed. Tax is rounded to the nearest minor unit per line.
+ */
+export async function calculateTax(region: string, lines: TaxableLine[]): Promise<TaxedLine[]> {
+  const country = region.split('-')[0];
+
+  const rules = await db.taxRule.findMany({
+    where: { region: { in: [region, country] } },
+  });
+
+  return lines.map((line) => {
+    const rule =
+      rules.find((rule) => rule.region === region && rule.taxClass === line.taxClass) ||
+      rules.find((rule) => rule.region === country && rule.taxClass === line.taxClass);
+    const taxRate = rule?.rate ?? 0;
+    const taxCents = Math.round(line.netCents * taxRate);
+
+    return {
+      ...line,
+      taxRate,
+      taxCents,
+      grossCents: line.netCents + taxCents,
+    };
+  });
+}
@@ -0,0 +1,162 @@
+// Two-Factor Service - Business Logic for TOTP Enrollment and Verification
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { hashToken } from '@/lib/auth';
+import { generateTotpSecret, buildOtpauthUri, verifyTotpCode } from '@/lib/totp';
+import { TwoFactorSetupResponse, TwoFactorConfirmResponse } from '@/types/api';
+
+// Number of one-time recovery codes issued on enrollment
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Generate a human-friendly recovery code (e.g. "3f9a1-c07be")
+ */
+function generateRecoveryCode(): string {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+/**
+ * Normalize user input so codes match regardless of case or spacing
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Accept a TOTP code once: reject codes from a time step already used
+ */
+async function consumeTotpCode(userId: string, secret: string, code: string): Promise<boolean> {
+  const step = verifyTotpCode(secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const { count } = await db.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Start TOTP enrollment by generating a new (not yet active) secret
+ */
+export async function setupTwoFactor(userId: string): Promise<TwoFactorSetupResponse> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+
+  await db.user.update({
+    where: { id: userId },
+    data: { totpSecret: secret, totpLastUsedStep: null },
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email),
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app and issue recovery codes
+ */
+export async function confirmTwoFactor(userId: string, code: string): Promise<TwoFactorConfirmResponse> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  if (!user.totpSecret) {
+    throw new Error('Two-factor setup has not been started');
+  }
+
+  if (!(await consumeTotpCode(user.id, user.totpSecret, code))) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.$transaction(async (tx) => {
+    await tx.recoveryCode.deleteMany({
+      where: { userId },
+    });
+
+    await tx.recoveryCode.createMany({
+      data: recoveryCodes.map((recoveryCode) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+      })),
+    });
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date() },
+    });
+  });
+
+  // Plain codes are only ever returned here
+  return { recoveryCodes };
+}
+
+/**
+ * Verify the second factor of a login with either a TOTP code or a recovery code
+ */
+export async function verifySecondFactor(
+  userId: string,
+  factor: { code?: string; recoveryCode?: string }
+): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || !user.totpEnabledAt || !user.totpSecret) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  if (factor.code) {
+    if (await consumeTotpCode(user.id, user.totpSecret, factor.code)) {
+      return;
+    }
+    throw new Error('Invalid two-factor code');
+  }
+
+  if (factor.recoveryCode) {
+    // Recovery codes are single-use
+    const { count } = await db.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(factor.recoveryCode)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count > 0) {
+      return;
+    }
+  }
+
+  throw new Error('Invalid two-factor code');
+}
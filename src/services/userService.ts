@@ -0,0 +1,186 @@
+// User Service - Business Logic for Admin User Management
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { User, UserListQuery, AdminUpdateUserDTO, PaginatedResponse } from '@/types/api';
+import { revokeAllSessions } from '@/services/sessionService';
+
+/**
+ * Transform Prisma User entity (with staff roles) to API User type (excluding password)
+ */
+function transformUser(prismaUser: any): User {
+  return {
+    id: prismaUser.id,
+    name: prismaUser.name,
+    email: prismaUser.email,
+    pendingEmail: prismaUser.pendingEmail,
+    emailVerifiedAt: prismaUser.emailVerifiedAt,
+    twoFactorEnabled: Boolean(prismaUser.totpEnabledAt),
+    role: prismaUser.role,
+    staffRoles: (prismaUser.staffRoles || []).map((role: any) => role.name),
+    disabledAt: prismaUser.disabledAt,
+    createdAt: prismaUser.createdAt,
+    updatedAt: prismaUser.updatedAt,
+  };
+}
+
+/**
+ * Get all users with pagination and filters
+ */
+export async function getUsers(query: UserListQuery): Promise<PaginatedResponse<User>> {
+  const page = query.page || 1;
+  const size = Math.min(query.size || 10, 100); // Max 100 items per page
+  const skip = (page - 1) * size;
+
+  // Build where clause
+  const where: Prisma.UserWhereInput = {};
+
+  if (query.role) {
+    where.role = query.role;
+  }
+
+  if (query.email) {
+    where.email = { contains: query.email.toLowerCase() };
+  }
+
+  // Filter by creation date range
+  if (query.createdFrom || query.createdTo) {
+    where.createdAt = {
+      ...(query.createdFrom ? { gte: query.createdFrom } : {}),
+      ...(query.createdTo ? { lte: query.createdTo } : {}),
+    };
+  }
+
+  // Get total count
+  const totalElements = await db.user.count({ where });
+
+  // Get users with pagination
+  const prismaUsers = await db.user.findMany({
+    where,
+    skip,
+    take: size,
+    orderBy: { createdAt: 'desc' },
+    include: { staffRoles: true },
+  });
+
+  const data = prismaUsers.map(transformUser);
+
+  return {
+    data,
+    pagination: {
+      page,
+      size,
+      totalElements,
+      totalPages: Math.ceil(totalElements / size),
+      hasNext: skip + size < totalElements,
+      hasPrevious: page > 1,
+    },
+  };
+}
+
+/**
+ * Get a single user by ID, including staff roles and disabled state
+ */
+export async function getUserDetails(id: string): Promise<User | null> {
+  const prismaUser = await db.user.findUnique({
+    where: { id },
+    include: { staffRoles: true },
+  });
+
+  if (!prismaUser) {
+    return null;
+  }
+
+  return transformUser(prismaUser);
+}
+
+/**
+ * Update a user's name, role, staff roles or disabled state
+ */
+export async function updateUser(id: string, dto: AdminUpdateUserDTO, actingUserId: string): Promise<User> {
+  const existingUser = await db.user.findUnique({
+    where: { id },
+    include: { staffRoles: true },
+  });
+
+  if (!existingUser) {
+    throw new Error('User not found');
+  }
+
+  // Admins cannot lock themselves out
+  if (id === actingUserId && (dto.disabled === true || (dto.role && dto.role !== existingUser.role))) {
+    throw new Error('Cannot disable or change the role of your own account');
+  }
+
+  // Validate staff role names
+  if (dto.staffRoles !== undefined) {
+    const roles = await db.role.findMany({
+      where: { name: { in: dto.staffRoles } },
+    });
+    const unknownRoles = dto.staffRoles.filter((name) => !roles.some((role) => role.name === name));
+    if (unknownRoles.length > 0) {
+      throw new Error(`Unknown staff role: ${unknownRoles.join(', ')}`);
+    }
+  }
+
+  const disabledAt = dto.disabled === undefined
+    ? undefined
+    : dto.disabled
+      ? existingUser.disabledAt || new Date()
+      : null;
+
+  const prismaUser = await db.user.update({
+    where: { id },
+    data: {
+      ...(dto.name !== undefined ? { name: dto.name } : {}),
+      ...(dto.role !== undefined ? { role: dto.role } : {}),
+      ...(dto.staffRoles !== undefined
+        ? { staffRoles: { set: dto.staffRoles.map((name) => ({ name })) } }
+        : {}),
+      ...(disabledAt !== undefined ? { disabledAt } : {}),
+    },
+    include: { staffRoles: true },
+  });
+
+  // Disabling or changing access ends every session right away, so tokens issued
+  // with the old role cannot be used; API keys are refused while disabled
+  const roleChanged = prismaUser.role !== existingUser.role;
+  const staffRolesChanged =
+    prismaUser.staffRoles.length !== existingUser.staffRoles.length ||
+    prismaUser.staffRoles.some((role) => !existingUser.staffRoles.some((previous) => previous.id === role.id));
+
+  if ((dto.disabled === true && !existingUser.disabledAt) || roleChanged || staffRolesChanged) {
+    await revokeAllSessions(id);
+  }
+
+  return transformUser(prismaUser);
+}
+
+/**
+ * Delete a user (only allowed when the user has no orders)
+ */
+export async function deleteUser(id: string, actingUserId: string): Promise<void> {
+  const existingUser = await db.user.findUnique({
+    where: { id },
+  });
+
+  if (!existingUser) {
+    throw new Error('User not found');
+  }
+
+  if (id === actingUserId) {
+    throw new Error('Cannot delete your own account');
+  }
+
+  // Keep order history intact
+  const orderCount = await db.order.count({
+    where: { userId: id },
+  });
+
+  if (orderCount > 0) {
+    throw new Error('Cannot delete user with existing orders; disable the account instead');
+  }
+
+  await db.user.delete({
+    where: { id },
+  });
+}
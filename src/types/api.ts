@@ -1,6 +1,14 @@
 // Bookstore Management System - API Types and DTOs
 
-import { UserRole, OrderStatus, PaymentStatus } from '@prisma/client';
+import {
+  UserRole,
+  OrderStatus,
+  PaymentStatus,
+  RefundStatus,
+  ReturnStatus,
+  ReturnDisposition,
+  PromotionType,
+} from '@prisma/client';
 
 // ============================================================================
 // BOOK TYPES
@@ -12,9 +20,14 @@ export interface Book {
   authors: string[]; // Parsed from JSON string
   genre: string;
   isbn: string;
-  price: number;
+  price: string; // Decimal string in `currency`, e.g. "12.99"
+  currency: string;
+  prices?: Record<string, string>; // Per-currency overrides, e.g. { EUR: "11.99" }
+  taxClass: string;
   description?: string | null;
   stockQuantity: number;
+  damagedQuantity?: number;
+  weightGrams?: number | null; // Shipping weight
   imageUrl?: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -25,9 +38,12 @@ export interface CreateBookDTO {
   authors: string[];
   genre: string;
   isbn: string;
-  price: number;
+  price: string | number; // Decimal amount, at most 2 decimals
+  prices?: Record<string, string | number>;
+  taxClass?: string; // Default: "books"
   description?: string;
   stockQuantity: number;
+  weightGrams?: number;
   imageUrl?: string;
 }
 
@@ -36,9 +52,12 @@ export interface UpdateBookDTO {
   authors?: string[];
   genre?: string;
   isbn?: string;
-  price?: number;
+  price?: string | number;
+  prices?: Record<string, string | number | null>; // null removes an override
+  taxClass?: string;
   description?: string;
   stockQuantity?: number;
+  weightGrams?: number | null; // null clears the weight
   imageUrl?: string;
 }
 
@@ -48,6 +67,7 @@ export interface BookListQuery {
   sort?: string;
   q?: string; // search query for title/author
   genre?: string;
+  currency?: string; // Show prices in this currency (default: store currency)
 }
 
 export interface PaginatedResponse<T> {
@@ -62,6 +82,116 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// ============================================================================
+// EXCHANGE RATE TYPES
+// ============================================================================
+
+// 1 unit of the store currency = `rate` units of `currency`
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedById: string | null;
+  updatedAt: Date;
+}
+
+export interface SetExchangeRateDTO {
+  rate: number;
+}
+
+// ============================================================================
+// TAX TYPES
+// ============================================================================
+
+// An amount to tax (minor units)
+export interface TaxableLine {
+  taxClass: string;
+  netCents: number;
+}
+
+export interface TaxedLine extends TaxableLine {
+  taxRate: number;
+  taxCents: number;
+  grossCents: number;
+}
+
+// Order tax totals per tax class and rate
+export interface TaxBreakdownEntry {
+  taxClass: string;
+  rate: number;
+  net: string;
+  tax: string;
+}
+
+// ============================================================================
+// PROMOTION TYPES
+// ============================================================================
+
+// Amounts are in the store currency
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  type: PromotionType;
+  percentOff: number | null;
+  amountOff: string | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  genre: string | null;
+  minSpend: string | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  active: boolean;
+  timesUsed: number; // Orders (not cancelled) that used the code
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePromotionDTO {
+  code: string;
+  description?: string | null;
+  type: PromotionType;
+  percentOff?: number | null;
+  amountOff?: string | number | null; // Decimal amount
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  genre?: string | null;
+  minSpend?: string | number | null; // Decimal amount
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  active?: boolean;
+}
+
+export type UpdatePromotionDTO = Partial<CreatePromotionDTO>;
+
+// A discount line applied to an order
+export interface OrderDiscount {
+  id: string;
+  promotionId: string | null;
+  code: string;
+  description: string;
+  amount: string;
+}
+
+// An order line a promotion may discount (minor units)
+export interface DiscountableItem {
+  genre: string;
+  quantity: number;
+  unitPriceCents: number;
+  subtotalCents: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  code: string;
+  description: string;
+  amountCents: number;
+  itemDiscounts: number[]; // Per DiscountableItem, in the same order
+}
+
 // ============================================================================
 // USER TYPES
 // ============================================================================
@@ -70,11 +200,32 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  pendingEmail?: string | null;
+  emailVerifiedAt?: Date | null;
+  twoFactorEnabled?: boolean;
   role: UserRole;
+  staffRoles?: string[];
+  disabledAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface UserListQuery {
+  page?: number;
+  size?: number;
+  role?: UserRole;
+  email?: string; // partial match
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface AdminUpdateUserDTO {
+  name?: string;
+  role?: UserRole;
+  staffRoles?: string[];
+  disabled?: boolean;
+}
+
 export interface CreateUserDTO {
   name: string;
   email: string;
@@ -90,6 +241,8 @@ export interface AuthResponse {
   token: string;
   tokenType: string;
   expiresIn: number;
+  refreshToken: string;
+  refreshExpiresIn: number;
   user: {
     id: string;
     name: string;
@@ -98,6 +251,99 @@ export interface AuthResponse {
   };
 }
 
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorLoginDTO {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorConfirmResponse {
+  recoveryCodes: string[];
+}
+
+export interface RefreshTokenDTO {
+  refreshToken: string;
+}
+
+export interface ForgotPasswordDTO {
+  email: string;
+}
+
+export interface ResetPasswordDTO {
+  token: string;
+  password: string;
+}
+
+export interface UpdateProfileDTO {
+  name?: string;
+  email?: string;
+}
+
+export interface ChangePasswordDTO {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// ============================================================================
+// PERMISSION TYPES
+// ============================================================================
+
+export type PermissionKey =
+  | 'books:create'
+  | 'books:update'
+  | 'books:update-stock'
+  | 'books:delete'
+  | 'books:pricing'
+  | 'orders:read-all'
+  | 'orders:update-status'
+  | 'orders:cancel'
+  | 'orders:refund'
+  | 'orders:returns';
+
+// ============================================================================
+// API KEY TYPES
+// ============================================================================
+
+export type ApiKeyScope = 'books:read' | 'books:write' | 'orders:read' | 'orders:write';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[]; // Parsed from JSON string
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateApiKeyDTO {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+export interface UpdateApiKeyDTO {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+export interface CreateApiKeyResponse extends ApiKey {
+  key: string; // Full key, only returned on creation
+}
+
 // ============================================================================
 // ORDER TYPES
 // ============================================================================
@@ -112,8 +358,13 @@ export interface OrderItem {
     imageUrl?: string | null;
   };
   quantity: number;
-  unitPrice: number;
-  subtotal: number;
+  unitPrice: string;
+  subtotal: string; // Net, before discounts
+  discount: string;
+  taxClass: string;
+  taxRate: number;
+  tax: string;
+  total: string; // Gross
 }
 
 export interface Order {
@@ -125,9 +376,23 @@ export interface Order {
     email: string;
   };
   orderItems: OrderItem[];
-  totalPrice: number;
+  subtotal: string; // Net, before discounts
+  discount: string;
+  tax: string;
+  shipping: string;
+  totalPrice: string; // Gross, including shipping
+  currency: string;
+  exchangeRate: number; // Rate from the store currency used at order time
+  taxRegion: string;
+  taxBreakdown: TaxBreakdownEntry[];
+  discounts: OrderDiscount[];
+  shippingAddress: ShippingAddress | null; // Snapshot taken when the order was placed
+  shippingMethod: string | null;
   orderStatus: OrderStatus;
   paymentStatus: PaymentStatus;
+  cancelledAt?: Date | null;
+  cancelledById?: string | null;
+  cancellationReason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -139,10 +404,30 @@ export interface CreateOrderItemDTO {
 
 export interface CreateOrderDTO {
   items: CreateOrderItemDTO[];
+  currency?: string; // Default: store currency
+  couponCode?: string;
+  addressId?: string; // An address from the customer's address book...
+  shippingAddress?: ShippingAddress; // ...or one given inline (default: the default address)
+  shippingMethod?: string; // ShippingMethod code. Default: "standard"
 }
 
 export interface UpdateOrderStatusDTO {
   status: OrderStatus;
+  note?: string;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null; // null for order creation
+  toStatus: OrderStatus;
+  actorId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface CancelOrderDTO {
+  reason?: string;
 }
 
 export interface OrderListQuery {
@@ -150,6 +435,116 @@ export interface OrderListQuery {
   size?: number;
 }
 
+// ============================================================================
+// ADDRESS TYPES
+// ============================================================================
+
+export interface ShippingAddress {
+  recipientName: string;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  region?: string | null; // State or province code, e.g. "CA"
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2
+  phone?: string | null;
+}
+
+export interface Address extends ShippingAddress {
+  id: string;
+  userId: string;
+  label: string | null;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAddressDTO extends ShippingAddress {
+  label?: string | null;
+  isDefault?: boolean;
+}
+
+export type UpdateAddressDTO = Partial<CreateAddressDTO>;
+
+// ============================================================================
+// SHIPPING TYPES
+// ============================================================================
+
+export type ShippingRateBasis = 'WEIGHT' | 'ITEM_COUNT';
+
+// Size of a shipment; books without a weight count as DEFAULT_BOOK_WEIGHT_GRAMS
+export interface ShipmentMeasure {
+  itemCount: number;
+  weightGrams: number;
+}
+
+// Price of one shipping method for a shipment
+export interface ShippingQuote {
+  method: string; // ShippingMethod code, sent as CreateOrderDTO.shippingMethod
+  name: string;
+  description: string | null;
+  rateBasis: ShippingRateBasis;
+  cost: string; // Decimal string in the quote currency
+}
+
+export interface ShippingQuoteResponse extends ShipmentMeasure {
+  currency: string;
+  region: string; // Most specific region of the destination, e.g. "US-CA"
+  quotes: ShippingQuote[]; // Cheapest first; methods that do not deliver there are left out
+}
+
+// ============================================================================
+// CART TYPES
+// ============================================================================
+
+// Cart lines are priced and checked against stock when the cart is read
+export interface CartItem {
+  bookId: string;
+  book: Book | null; // null if the book has been deleted
+  quantity: number;
+  unitPrice: string | null;
+  subtotal: string | null;
+  inStock: boolean;
+}
+
+export interface Cart {
+  id: string | null; // null until the first item is added
+  currency: string;
+  items: CartItem[];
+  itemCount: number;
+  subtotal: string; // Before discounts and tax
+  updatedAt: Date | null;
+}
+
+export interface AddCartItemDTO {
+  bookId: string;
+  quantity: number;
+}
+
+export interface UpdateCartItemDTO {
+  bookId: string;
+  quantity: number; // 0 removes the line
+}
+
+export type CheckoutCartDTO = Omit<CreateOrderDTO, 'items'>;
+
+// ============================================================================
+// STOCK RESERVATION TYPES
+// ============================================================================
+
+// Stock held for a customer's checkout session
+export interface StockReservation {
+  id: string;
+  userId: string;
+  items: CreateOrderItemDTO[];
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateReservationDTO {
+  items?: CreateOrderItemDTO[]; // Default: the customer's cart
+}
+
 // ============================================================================
 // ERROR TYPES
 // ============================================================================
@@ -163,22 +558,174 @@ export interface ErrorResponse {
 }
 
 // ============================================================================
-// PAYMENT HOOK TYPES (for future integration)
+// RETURN TYPES
+// ============================================================================
+
+export interface ReturnItem {
+  id: string;
+  orderItemId: string;
+  quantity: number;
+  disposition: ReturnDisposition | null; // Set once received
+}
+
+export interface ReturnStatusHistoryEntry {
+  id: string;
+  fromStatus: ReturnStatus | null; // null when the return was opened
+  toStatus: ReturnStatus;
+  actorId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  userId: string;
+  status: ReturnStatus;
+  reason: string;
+  refundId: string | null;
+  items: ReturnItem[];
+  history?: ReturnStatusHistoryEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateReturnDTO {
+  items: { orderItemId: string; quantity: number }[];
+  reason: string;
+}
+
+export interface UpdateReturnDTO {
+  status: ReturnStatus;
+  note?: string;
+  dispositions?: { orderItemId: string; disposition: ReturnDisposition }[]; // RECEIVED only; default RESTOCK
+}
+
+// ============================================================================
+// PAYMENT TYPES
 // ============================================================================
 
+// Sent to a PaymentProvider
 export interface PaymentRequest {
   orderId: string;
-  amount: number;
+  amount: number; // Minor units (cents)
   currency: string;
   paymentMethod: string;
 }
 
+// Returned by a PaymentProvider (status PENDING = awaiting async confirmation)
 export interface PaymentResponse {
   success: boolean;
   paymentId?: string;
+  status: PaymentStatus;
+  message?: string;
+}
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  provider: string;
+  providerPaymentId: string | null;
+  amount: string;
+  currency: string;
+  paymentMethod: string;
+  status: PaymentStatus;
+  failureReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PayOrderDTO {
+  paymentMethod: string;
+}
+
+export interface PayOrderResponse {
+  payment: Payment;
+  order: Order;
+}
+
+// Sent to a PaymentProvider to refund (part of) a settled payment
+export interface RefundRequest {
+  paymentId: string; // Provider payment ID
+  amount: number; // Minor units (cents)
+  currency: string;
+  reason?: string;
+}
+
+// Returned by a PaymentProvider
+export interface RefundResponse {
+  success: boolean;
+  refundId?: string;
+  message?: string;
+}
+
+// Sent to a PaymentProvider to void a payment that is still awaiting confirmation
+export interface CancelPaymentRequest {
+  paymentId: string; // Provider payment ID
+}
+
+// Returned by a PaymentProvider
+export interface CancelPaymentResponse {
+  success: boolean;
   message?: string;
 }
 
+export interface RefundItem {
+  orderItemId: string;
+  quantity: number;
+  amount: string;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  paymentId: string;
+  providerRefundId: string | null;
+  amount: string;
+  currency: string;
+  reason: string | null;
+  status: RefundStatus;
+  failureReason: string | null;
+  createdById: string | null;
+  items: RefundItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Items, an amount, or neither (refund the remaining balance)
+export interface CreateRefundDTO {
+  items?: { orderItemId: string; quantity: number }[];
+  amount?: string | number; // Decimal amount, at most 2 decimals
+  reason?: string;
+}
+
+export type PaymentWebhookEventType = 'payment.succeeded' | 'payment.failed';
+
+// Body of POST /api/webhooks/payments
+export interface PaymentWebhookEvent {
+  id: string; // Provider event ID, used to ignore duplicate deliveries
+  type: PaymentWebhookEventType | string;
+  data: {
+    paymentId: string; // Provider payment ID (Payment.providerPaymentId)
+    failureReason?: string;
+  };
+}
+
+export interface PaymentWebhookResult {
+  received: boolean;
+  duplicate: boolean;
+}
+
+// ============================================================================
+// IDEMPOTENCY TYPES
+// ============================================================================
+
+// The first response to a request with an Idempotency-Key, replayed to retries
+export interface StoredResponse {
+  status: number;
+  body: string; // Raw JSON
+}
+
 // ============================================================================
 // API RESPONSE WRAPPER
 // ============================================================================